@@ -147,7 +147,7 @@ public class AutorizacionController : ControllerBase
             }
 
             var result = await _autorizacionComponent.UpdateAuthorizationStatusAsync(
-                codigoVendedor, request.Autorizado, request.EmpleadoRH);
+                codigoVendedor, request.Autorizado, request.EmpleadoRH, request.Motivo);
             
             if (result.Success)
             {
@@ -199,6 +199,42 @@ public class AutorizacionController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Gets the authorization history of a seller
+    /// </summary>
+    /// <param name="codigoVendedor">Seller code</param>
+    /// <returns>API response with the seller's authorization changes, newest first</returns>
+    [HttpGet("vendedores/{codigoVendedor}/history")]
+    [ProducesResponseType(typeof(ApiResponse<List<HistorialAutorizacion>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<List<HistorialAutorizacion>>), 404)]
+    [ProducesResponseType(500)]
+    public async Task<ActionResult<ApiResponse<List<HistorialAutorizacion>>>> GetAuthorizationHistory(string codigoVendedor)
+    {
+        try
+        {
+            _logger.LogInformation("Authorization history request for seller: {CodigoVendedor}", codigoVendedor);
+
+            if (string.IsNullOrWhiteSpace(codigoVendedor))
+            {
+                return BadRequest(ApiResponse<List<HistorialAutorizacion>>.ErrorResult("Seller code is required"));
+            }
+
+            var result = await _autorizacionComponent.GetAuthorizationHistoryAsync(codigoVendedor);
+
+            if (result.Success)
+            {
+                return Ok(result);
+            }
+
+            return NotFound(result);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Unexpected error in GetAuthorizationHistory");
+            return StatusCode(500, ApiResponse<List<HistorialAutorizacion>>.ErrorResult("Internal server error"));
+        }
+    }
+
     /// <summary>
     /// Validates HR employee permissions
     /// </summary>
@@ -285,4 +321,5 @@ public class UpdateAuthorizationRequest
 {
     public bool Autorizado { get; set; }
     public string EmpleadoRH { get; set; } = string.Empty;
+    public string Motivo { get; set; } = string.Empty;
 }
@@ -1,4 +1,6 @@
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
 using PoliMarket.Components.Products;
 using PoliMarket.Models.Entities;
 
@@ -14,11 +16,19 @@ namespace PoliMarket.API.Controllers;
 public class ProductosController : ControllerBase
 {
     private readonly IProductosComponent _productosComponent;
+    private readonly IProductChangeNotifier _changeNotifier;
+    private readonly JsonSerializerOptions _jsonOptions;
     private readonly ILogger<ProductosController> _logger;
 
-    public ProductosController(IProductosComponent productosComponent, ILogger<ProductosController> logger)
+    public ProductosController(
+        IProductosComponent productosComponent,
+        IProductChangeNotifier changeNotifier,
+        IOptions<JsonOptions> jsonOptions,
+        ILogger<ProductosController> logger)
     {
         _productosComponent = productosComponent;
+        _changeNotifier = changeNotifier;
+        _jsonOptions = jsonOptions.Value.JsonSerializerOptions;
         _logger = logger;
     }
 
@@ -30,6 +40,8 @@ public class ProductosController : ControllerBase
     /// <param name="categoria">Category filter</param>
     /// <param name="activo">Active status filter</param>
     /// <param name="searchTerm">Search term for name/description</param>
+    /// <param name="sortField">Field to sort by: id, nombre, categoria, precio, stock, fechaActualizacion (default: nombre)</param>
+    /// <param name="sortOrder">Sort direction: asc or desc (default: asc)</param>
     /// <returns>List of products with pagination info</returns>
     [HttpGet]
     public async Task<IActionResult> GetProducts(
@@ -37,9 +49,11 @@ public class ProductosController : ControllerBase
         [FromQuery] int pageSize = 10,
         [FromQuery] string? categoria = null,
         [FromQuery] bool? activo = null,
-        [FromQuery] string? searchTerm = null)
+        [FromQuery] string? searchTerm = null,
+        [FromQuery] string? sortField = null,
+        [FromQuery] string? sortOrder = null)
     {
-        var result = await _productosComponent.GetProductsAsync(page, pageSize, categoria, activo, searchTerm);
+        var result = await _productosComponent.GetProductsAsync(page, pageSize, categoria, activo, searchTerm, sortField, sortOrder);
         return result.Success ? Ok(result) : BadRequest(result);
     }
 
@@ -99,11 +113,17 @@ public class ProductosController : ControllerBase
             StockMinimo = request.StockMinimo,
             StockMaximo = request.StockMaximo,
             UnidadMedida = request.UnidadMedida,
-            Estado = true
+            Estado = request.Estado ?? true
         };
 
-        var result = await _productosComponent.UpdateProductAsync(id, producto);
-        return result.Success ? Ok(result) : BadRequest(result);
+        var result = await _productosComponent.UpdateProductAsync(id, producto, request.FechaActualizacion);
+        if (result.Success)
+        {
+            return Ok(result);
+        }
+
+        // Failed updates only carry data on a concurrency conflict: the current product
+        return result.Data != null ? Conflict(result) : BadRequest(result);
     }
 
     /// <summary>
@@ -142,6 +162,49 @@ public class ProductosController : ControllerBase
         return result.Success ? Ok(result) : BadRequest(result);
     }
 
+    /// <summary>
+    /// Get product change history (stock, price and status)
+    /// </summary>
+    /// <param name="id">Product ID</param>
+    /// <returns>Movements for the product, newest first</returns>
+    [HttpGet("{id}/history")]
+    public async Task<IActionResult> GetProductHistory(string id)
+    {
+        var result = await _productosComponent.GetProductHistoryAsync(id);
+        return result.Success ? Ok(result) : NotFound(result);
+    }
+
+    /// <summary>
+    /// Stream product changes (create, update, delete) as server-sent events
+    /// </summary>
+    /// <remarks>
+    /// Each event's data is a ProductChange in JSON. The connection stays open until the client closes it.
+    /// </remarks>
+    [HttpGet("changes")]
+    [Produces("text/event-stream")]
+    public async Task StreamChanges(CancellationToken cancellationToken)
+    {
+        Response.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        await Response.Body.FlushAsync(cancellationToken);
+
+        _logger.LogInformation("Client subscribed to product changes");
+        try
+        {
+            await foreach (var change in _changeNotifier.Subscribe(cancellationToken))
+            {
+                var data = JsonSerializer.Serialize(change, _jsonOptions);
+                await Response.WriteAsync($"data: {data}\n\n", cancellationToken);
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // The client disconnected
+        }
+        _logger.LogInformation("Client unsubscribed from product changes");
+    }
+
     /// <summary>
     /// Get products with low stock
     /// </summary>
@@ -4,6 +4,7 @@ using PoliMarket.Components.Authentication;
 using PoliMarket.Components.Authorization;
 using PoliMarket.Components.Products;
 using PoliMarket.Components.Infrastructure.Data;
+using PoliMarket.Components.Infrastructure.Services;
 using PoliMarket.Contracts;
 using DotNetEnv;
 
@@ -61,6 +62,7 @@ builder.Services.AddSwaggerGen(c =>
         - Product CRUD operations
         - Product catalog management
         - Category management
+        - Live change feed (server-sent events)
 
         ### 🏗️ **Architecture Principles**
         - **Separation of Concerns**: Each component has single responsibility
@@ -92,6 +94,9 @@ builder.Services.AddSwaggerGen(c =>
     c.DocInclusionPredicate((name, api) => true);
 });
 
+// Request/response header shared with the clients for request tracing
+const string CorrelationIdHeader = "X-Correlation-ID";
+
 // Configure CORS from environment variables
 var allowedOrigins = Environment.GetEnvironmentVariable("CORS_ALLOWED_ORIGINS")?.Split(',')
                     ?? new[] { "http://localhost:4200", "http://localhost:3001" };
@@ -104,7 +109,8 @@ builder.Services.AddCors(options =>
     {
         policy.WithOrigins(allowedOrigins)
               .AllowAnyHeader()
-              .AllowAnyMethod();
+              .AllowAnyMethod()
+              .WithExposedHeaders(CorrelationIdHeader);
 
         if (allowCredentials)
         {
@@ -148,6 +154,24 @@ app.MapGet("/", () => Results.Redirect("/swagger/index.html"));
 // Configure middleware pipeline in correct order
 app.UseCors("AllowClients");
 
+// Echo the client's correlation ID (or a new one) so both sides log the same request ID
+app.Use(async (context, next) =>
+{
+    var correlationId = context.Request.Headers[CorrelationIdHeader].FirstOrDefault();
+    if (string.IsNullOrWhiteSpace(correlationId) || correlationId.Length > 64)
+    {
+        correlationId = Guid.NewGuid().ToString();
+    }
+
+    context.TraceIdentifier = correlationId;
+    context.Response.Headers[CorrelationIdHeader] = correlationId;
+
+    using (app.Logger.BeginScope(new Dictionary<string, object> { ["CorrelationId"] = correlationId }))
+    {
+        await next();
+    }
+});
+
 // app.UseHttpsRedirection(); // Disabled for development
 app.UseRouting();
 app.UseAuthorization();
@@ -164,6 +188,32 @@ app.MapGet("/api", () => new
     Documentation = "/swagger/index.html"
 });
 
+// Health endpoint polled by the clients: 200 when the database answers, 503 when it does not
+app.MapGet("/api/health", async (PoliMarketDbContext context, CancellationToken cancellationToken) =>
+{
+    var stopwatch = System.Diagnostics.Stopwatch.StartNew();
+    bool databaseAvailable;
+    try
+    {
+        databaseAvailable = await context.Database.CanConnectAsync(cancellationToken);
+    }
+    catch (Exception ex)
+    {
+        app.Logger.LogError(ex, "Health check could not reach the database");
+        databaseAvailable = false;
+    }
+    stopwatch.Stop();
+
+    return Results.Json(new
+    {
+        Status = databaseAvailable ? "Healthy" : "Degraded",
+        Database = databaseAvailable,
+        DatabaseLatencyMs = stopwatch.ElapsedMilliseconds,
+        Version = "v1.0.0",
+        Timestamp = DateTime.UtcNow
+    }, statusCode: databaseAvailable ? StatusCodes.Status200OK : StatusCodes.Status503ServiceUnavailable);
+});
+
 app.Logger.LogInformation("PoliMarket API is ready and listening...");
 
 app.Run();
@@ -171,6 +221,9 @@ app.Run();
 // Helper methods
 static void RegisterComponentServices(IServiceCollection services)
 {
+    // Shared by the components that record who made a change
+    services.AddScoped<IAuditService, AuditService>();
+
     // Authentication Component
     services.AddScoped<IAuthenticationComponent, AuthenticationComponent>();
 
@@ -180,6 +233,8 @@ static void RegisterComponentServices(IServiceCollection services)
 
     // Products Component
     services.AddScoped<IProductosComponent, ProductosComponent>();
+    // One notifier for the whole app so every open dashboard hears every change
+    services.AddSingleton<IProductChangeNotifier, ProductChangeNotifier>();
 
     // Database Seeder
     services.AddScoped<DatabaseSeeder>();
@@ -194,6 +249,7 @@ static async Task InitializeDatabaseAsync(WebApplication app)
     try
     {
         await context.Database.EnsureCreatedAsync();
+        await context.EnsureLateTablesCreatedAsync();
         app.Logger.LogInformation("Database initialized successfully");
 
         // Seed database with test data
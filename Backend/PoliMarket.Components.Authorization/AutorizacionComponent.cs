@@ -1,4 +1,5 @@
 using Microsoft.Extensions.Logging;
+using PoliMarket.Components.Infrastructure.Services;
 using PoliMarket.Contracts;
 using PoliMarket.Models.Common;
 using PoliMarket.Models.Entities;
@@ -14,13 +15,16 @@ public class AutorizacionComponent : IAutorizacionComponent
 {
     private readonly ILogger<AutorizacionComponent> _logger;
     private readonly IAutorizacionRepository _repository;
+    private readonly IAuditService _auditService;
 
     public AutorizacionComponent(
         ILogger<AutorizacionComponent> logger,
-        IAutorizacionRepository repository)
+        IAutorizacionRepository repository,
+        IAuditService auditService)
     {
         _logger = logger;
         _repository = repository;
+        _auditService = auditService;
     }
 
     public async Task<ApiResponse<Vendedor>> AuthorizeVendedorAsync(AuthorizationRequest request)
@@ -44,6 +48,7 @@ public class AutorizacionComponent : IAutorizacionComponent
             }
 
             // Create new seller
+            var fecha = DateTime.UtcNow;
             var vendedor = new Vendedor
             {
                 CodigoVendedor = request.CodigoVendedor,
@@ -51,13 +56,21 @@ public class AutorizacionComponent : IAutorizacionComponent
                 Territorio = request.Territorio,
                 Comision = request.Comision,
                 Autorizado = true,
-                FechaAutorizacion = DateTime.UtcNow,
+                FechaAutorizacion = fecha,
                 EmpleadoRHAutorizo = request.EmpleadoRH,
-                FechaCreacion = DateTime.UtcNow,
+                FechaCreacion = fecha,
                 Activo = true
             };
 
-            var createdSeller = await _repository.CreateVendedorAsync(vendedor);
+            var createdSeller = await _repository.CreateAuthorizedVendedorAsync(vendedor, new HistorialAutorizacion
+            {
+                CodigoVendedor = vendedor.CodigoVendedor,
+                Autorizado = true,
+                Motivo = "Autorización inicial",
+                EmpleadoRH = request.EmpleadoRH,
+                UsuarioResponsable = _auditService.GetCurrentUserId(),
+                Fecha = fecha
+            });
             
             _logger.LogInformation("Seller authorized successfully: {CodigoVendedor}", request.CodigoVendedor);
             
@@ -128,12 +141,17 @@ public class AutorizacionComponent : IAutorizacionComponent
         }
     }
 
-    public async Task<ApiResponse<Vendedor>> UpdateAuthorizationStatusAsync(string codigoVendedor, bool autorizado, string empleadoRH)
+    public async Task<ApiResponse<Vendedor>> UpdateAuthorizationStatusAsync(string codigoVendedor, bool autorizado, string empleadoRH, string motivo)
     {
         try
         {
             _logger.LogInformation("Updating authorization status for seller: {CodigoVendedor}", codigoVendedor);
 
+            if (string.IsNullOrWhiteSpace(motivo))
+            {
+                return ApiResponse<Vendedor>.ErrorResult("Debe indicar el motivo del cambio de autorización");
+            }
+
             // Validate HR employee
             var hrEmployee = await _repository.GetHREmployeeByIdAsync(empleadoRH);
             if (hrEmployee == null || !hrEmployee.Activo)
@@ -147,12 +165,31 @@ public class AutorizacionComponent : IAutorizacionComponent
                 return ApiResponse<Vendedor>.ErrorResult("Vendedor no encontrado");
             }
 
+            if (vendedor.Autorizado == autorizado)
+            {
+                return ApiResponse<Vendedor>.ErrorResult(autorizado
+                    ? "El vendedor ya está autorizado"
+                    : "El vendedor ya tiene la autorización revocada");
+            }
+
+            // A revocation keeps the date the seller was last authorized
+            var fecha = DateTime.UtcNow;
             vendedor.Autorizado = autorizado;
             vendedor.EmpleadoRHAutorizo = empleadoRH;
-            vendedor.FechaAutorizacion = DateTime.UtcNow;
-            vendedor.FechaActualizacion = DateTime.UtcNow;
+            if (autorizado)
+            {
+                vendedor.FechaAutorizacion = fecha;
+            }
 
-            var updatedSeller = await _repository.UpdateVendedorAsync(vendedor);
+            var updatedSeller = await _repository.UpdateAuthorizationAsync(vendedor, new HistorialAutorizacion
+            {
+                CodigoVendedor = vendedor.CodigoVendedor,
+                Autorizado = autorizado,
+                Motivo = motivo.Trim(),
+                EmpleadoRH = empleadoRH,
+                UsuarioResponsable = _auditService.GetCurrentUserId(),
+                Fecha = fecha
+            });
             
             _logger.LogInformation("Authorization status updated for seller: {CodigoVendedor}", codigoVendedor);
             
@@ -238,4 +275,27 @@ public class AutorizacionComponent : IAutorizacionComponent
             return ApiResponse<List<Vendedor>>.ErrorResult("Error interno del servidor", ex.Message);
         }
     }
+
+    public async Task<ApiResponse<List<HistorialAutorizacion>>> GetAuthorizationHistoryAsync(string codigoVendedor)
+    {
+        try
+        {
+            _logger.LogInformation("Getting authorization history for seller: {CodigoVendedor}", codigoVendedor);
+
+            var vendedor = await _repository.GetVendedorByCodeAsync(codigoVendedor);
+            if (vendedor == null)
+            {
+                return ApiResponse<List<HistorialAutorizacion>>.ErrorResult("Vendedor no encontrado");
+            }
+
+            var historial = await _repository.GetHistorialByVendedorAsync(codigoVendedor);
+
+            return ApiResponse<List<HistorialAutorizacion>>.SuccessResult(historial, $"Se encontraron {historial.Count} cambios de autorización");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting authorization history: {CodigoVendedor}", codigoVendedor);
+            return ApiResponse<List<HistorialAutorizacion>>.ErrorResult("Error interno del servidor", ex.Message);
+        }
+    }
 }
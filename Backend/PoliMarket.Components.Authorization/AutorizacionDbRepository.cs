@@ -89,6 +89,46 @@ public class AutorizacionDbRepository : IAutorizacionRepository
 
     #endregion
 
+    #region Authorization History Operations
+
+    public async Task<Vendedor> CreateAuthorizedVendedorAsync(Vendedor vendedor, HistorialAutorizacion historial)
+    {
+        _logger.LogDebug("Creating authorized seller: {CodigoVendedor}", vendedor.CodigoVendedor);
+
+        // Seller and its first history row are saved together so neither is kept without the other
+        vendedor.FechaCreacion = DateTime.UtcNow;
+        _context.Vendedores.Add(vendedor);
+        _context.HistorialAutorizaciones.Add(historial);
+        await _context.SaveChangesAsync();
+
+        return vendedor;
+    }
+
+    public async Task<Vendedor> UpdateAuthorizationAsync(Vendedor vendedor, HistorialAutorizacion historial)
+    {
+        _logger.LogDebug("Recording authorization change for seller: {CodigoVendedor}", vendedor.CodigoVendedor);
+
+        // Seller and history row are saved together so neither is kept without the other
+        vendedor.FechaActualizacion = DateTime.UtcNow;
+        _context.Vendedores.Update(vendedor);
+        _context.HistorialAutorizaciones.Add(historial);
+        await _context.SaveChangesAsync();
+
+        return vendedor;
+    }
+
+    public async Task<List<HistorialAutorizacion>> GetHistorialByVendedorAsync(string codigoVendedor)
+    {
+        _logger.LogDebug("Getting authorization history for seller: {CodigoVendedor}", codigoVendedor);
+
+        return await _context.HistorialAutorizaciones
+            .Where(h => h.CodigoVendedor == codigoVendedor)
+            .OrderByDescending(h => h.Fecha)
+            .ToListAsync();
+    }
+
+    #endregion
+
     #region HR Employee Operations
 
     public async Task<EmpleadoRH?> GetHREmployeeByIdAsync(string empleadoId)
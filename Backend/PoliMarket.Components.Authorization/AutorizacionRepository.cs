@@ -111,6 +111,8 @@ public class AutorizacionRepository : IAutorizacionRepository
         }
     };
 
+    private static readonly List<HistorialAutorizacion> _historial = new();
+
     public AutorizacionRepository(ILogger<AutorizacionRepository> logger)
     {
         _logger = logger;
@@ -189,6 +191,51 @@ public class AutorizacionRepository : IAutorizacionRepository
 
     #endregion
 
+    #region Authorization History Operations
+
+    public async Task<Vendedor> CreateAuthorizedVendedorAsync(Vendedor vendedor, HistorialAutorizacion historial)
+    {
+        _logger.LogDebug("Creating authorized seller: {CodigoVendedor}", vendedor.CodigoVendedor);
+
+        await Task.Delay(10); // Simulate async operation
+
+        vendedor.FechaCreacion = DateTime.UtcNow;
+        _vendedores.Add(vendedor);
+        _historial.Add(historial);
+
+        return vendedor;
+    }
+
+    public async Task<Vendedor> UpdateAuthorizationAsync(Vendedor vendedor, HistorialAutorizacion historial)
+    {
+        _logger.LogDebug("Recording authorization change for seller: {CodigoVendedor}", vendedor.CodigoVendedor);
+
+        await Task.Delay(10); // Simulate async operation
+
+        var index = _vendedores.FindIndex(v => v.CodigoVendedor == vendedor.CodigoVendedor);
+        if (index >= 0)
+        {
+            vendedor.FechaActualizacion = DateTime.UtcNow;
+            _vendedores[index] = vendedor;
+            _historial.Add(historial);
+        }
+
+        return vendedor;
+    }
+
+    public async Task<List<HistorialAutorizacion>> GetHistorialByVendedorAsync(string codigoVendedor)
+    {
+        _logger.LogDebug("Getting authorization history for seller: {CodigoVendedor}", codigoVendedor);
+
+        await Task.Delay(10); // Simulate async operation
+        return _historial
+            .Where(h => h.CodigoVendedor == codigoVendedor)
+            .OrderByDescending(h => h.Fecha)
+            .ToList();
+    }
+
+    #endregion
+
     #region HR Employee Operations
 
     public async Task<EmpleadoRH?> GetHREmployeeByIdAsync(string empleadoId)
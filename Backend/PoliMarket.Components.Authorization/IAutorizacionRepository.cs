@@ -15,6 +15,11 @@ public interface IAutorizacionRepository
     Task<Vendedor> UpdateVendedorAsync(Vendedor vendedor);
     Task<bool> DeleteVendedorAsync(string codigoVendedor);
 
+    // Authorization history operations
+    Task<Vendedor> CreateAuthorizedVendedorAsync(Vendedor vendedor, HistorialAutorizacion historial);
+    Task<Vendedor> UpdateAuthorizationAsync(Vendedor vendedor, HistorialAutorizacion historial);
+    Task<List<HistorialAutorizacion>> GetHistorialByVendedorAsync(string codigoVendedor);
+
     // HR Employee operations
     Task<EmpleadoRH?> GetHREmployeeByIdAsync(string empleadoId);
     Task<List<EmpleadoRH>> GetActiveHREmployeesAsync();
@@ -1,4 +1,5 @@
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
 using PoliMarket.Models.Entities;
 
 namespace PoliMarket.Components.Infrastructure.Data;
@@ -22,6 +23,7 @@ public class PoliMarketDbContext : DbContext
     // Authorization & HR
     public DbSet<Vendedor> Vendedores { get; set; }
     public DbSet<EmpleadoRH> EmpleadosRH { get; set; }
+    public DbSet<HistorialAutorizacion> HistorialAutorizaciones { get; set; }
 
     // Products & Inventory
     public DbSet<Producto> Productos { get; set; }
@@ -40,6 +42,24 @@ public class PoliMarketDbContext : DbContext
         SeedInitialData(modelBuilder);
     }
 
+    /// <summary>
+    /// Dates are always written as UTC but SQLite does not keep the kind, so they are
+    /// read back as UTC too; otherwise the API would serialize them without the "Z"
+    /// </summary>
+    protected override void ConfigureConventions(ModelConfigurationBuilder configurationBuilder)
+    {
+        configurationBuilder.Properties<DateTime>().HaveConversion<UtcDateTimeConverter>();
+        configurationBuilder.Properties<DateTime?>().HaveConversion<UtcDateTimeConverter>();
+    }
+
+    private class UtcDateTimeConverter : ValueConverter<DateTime, DateTime>
+    {
+        public UtcDateTimeConverter()
+            : base(value => value, value => DateTime.SpecifyKind(value, DateTimeKind.Utc))
+        {
+        }
+    }
+
     #region Entity Configuration
 
     private void ConfigureUserEntities(ModelBuilder modelBuilder)
@@ -115,6 +135,24 @@ public class PoliMarketDbContext : DbContext
             entity.Property(e => e.Email).HasMaxLength(100);
             entity.Property(e => e.Telefono).HasMaxLength(20);
         });
+
+        // HistorialAutorizacion configuration
+        modelBuilder.Entity<HistorialAutorizacion>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasMaxLength(50).IsRequired();
+            entity.Property(e => e.CodigoVendedor).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.Motivo).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.EmpleadoRH).HasMaxLength(20).IsRequired();
+            entity.Property(e => e.UsuarioResponsable).HasMaxLength(100).IsRequired();
+
+            entity.HasIndex(e => e.CodigoVendedor);
+
+            entity.HasOne<Vendedor>()
+                  .WithMany()
+                  .HasForeignKey(e => e.CodigoVendedor)
+                  .OnDelete(DeleteBehavior.Cascade);
+        });
     }
 
     private void ConfigureProductEntities(ModelBuilder modelBuilder)
@@ -152,6 +190,28 @@ public class PoliMarketDbContext : DbContext
 
     #endregion
 
+    /// <summary>
+    /// EnsureCreated does not add tables to an existing database, so tables
+    /// introduced after the first release are created here when missing
+    /// </summary>
+    public async Task EnsureLateTablesCreatedAsync()
+    {
+        await Database.ExecuteSqlRawAsync(@"
+            CREATE TABLE IF NOT EXISTS ""HistorialAutorizaciones"" (
+                ""Id"" TEXT NOT NULL CONSTRAINT ""PK_HistorialAutorizaciones"" PRIMARY KEY,
+                ""CodigoVendedor"" TEXT NOT NULL,
+                ""Autorizado"" INTEGER NOT NULL,
+                ""Motivo"" TEXT NOT NULL,
+                ""EmpleadoRH"" TEXT NOT NULL,
+                ""UsuarioResponsable"" TEXT NOT NULL,
+                ""Fecha"" TEXT NOT NULL,
+                CONSTRAINT ""FK_HistorialAutorizaciones_Vendedores_CodigoVendedor"" FOREIGN KEY (""CodigoVendedor"")
+                    REFERENCES ""Vendedores"" (""CodigoVendedor"") ON DELETE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS ""IX_HistorialAutorizaciones_CodigoVendedor""
+                ON ""HistorialAutorizaciones"" (""CodigoVendedor"");");
+    }
+
     #region Seed Data
 
     private void SeedInitialData(ModelBuilder modelBuilder)
@@ -1,4 +1,6 @@
 using Microsoft.AspNetCore.Http;
+using Microsoft.EntityFrameworkCore;
+using PoliMarket.Components.Infrastructure.Data;
 using PoliMarket.Models.Entities;
 
 namespace PoliMarket.Components.Infrastructure.Services;
@@ -29,11 +31,16 @@ public interface IAuditService
 /// </summary>
 public class AuditService : IAuditService
 {
+    private const string BearerPrefix = "Bearer ";
+    private const string CurrentUserItemKey = "AuditService.CurrentUser";
+
     private readonly IHttpContextAccessor _httpContextAccessor;
+    private readonly PoliMarketDbContext _context;
 
-    public AuditService(IHttpContextAccessor httpContextAccessor)
+    public AuditService(IHttpContextAccessor httpContextAccessor, PoliMarketDbContext context)
     {
         _httpContextAccessor = httpContextAccessor;
+        _context = context;
     }
 
     public string GetCurrentUserId()
@@ -52,17 +59,43 @@ public class AuditService : IAuditService
             }
         }
 
-        // Fallback: try to get from custom header (for API calls)
-        var userIdHeader = httpContext?.Request.Headers["X-User-Id"].FirstOrDefault();
-        if (!string.IsNullOrEmpty(userIdHeader))
+        // Session token issued at login; the username comes from the server's own session record
+        var username = httpContext != null ? GetSessionUsername(httpContext) : null;
+        if (!string.IsNullOrEmpty(username))
         {
-            return userIdHeader;
+            return username;
         }
 
         // Default fallback
         return "SYSTEM";
     }
 
+    /// <summary>
+    /// Username of the active session behind the request's bearer token, looked up once per request
+    /// </summary>
+    private string? GetSessionUsername(HttpContext httpContext)
+    {
+        if (httpContext.Items.TryGetValue(CurrentUserItemKey, out var cached))
+        {
+            return cached as string;
+        }
+
+        string? username = null;
+        var authorization = httpContext.Request.Headers["Authorization"].FirstOrDefault();
+        if (authorization != null && authorization.StartsWith(BearerPrefix, StringComparison.OrdinalIgnoreCase))
+        {
+            var token = authorization[BearerPrefix.Length..].Trim();
+            username = _context.UserSessions
+                .AsNoTracking()
+                .Where(s => s.Token == token && s.Activa && s.FechaExpiracion > DateTime.UtcNow)
+                .Select(s => s.Usuario.Username)
+                .FirstOrDefault();
+        }
+
+        httpContext.Items[CurrentUserItemKey] = username;
+        return username;
+    }
+
     public void SetCreatedAudit(IAuditableEntity entity)
     {
         var currentUserId = GetCurrentUserId();
@@ -29,8 +29,9 @@ public interface IProductosComponent
     /// </summary>
     /// <param name="productoId">Product ID</param>
     /// <param name="producto">Updated product information</param>
+    /// <param name="fechaActualizacionEsperada">Version the client edited; when set and the product changed since, the update is rejected and the current product is returned as data</param>
     /// <returns>API response with updated product</returns>
-    Task<ApiResponse<Producto>> UpdateProductAsync(string productoId, Producto producto);
+    Task<ApiResponse<Producto>> UpdateProductAsync(string productoId, Producto producto, DateTime? fechaActualizacionEsperada = null);
 
     /// <summary>
     /// Deletes a product (soft delete)
@@ -47,8 +48,10 @@ public interface IProductosComponent
     /// <param name="categoria">Category filter</param>
     /// <param name="activo">Active status filter</param>
     /// <param name="searchTerm">Search term for name/description</param>
+    /// <param name="sortField">Field to sort by</param>
+    /// <param name="sortOrder">Sort direction (asc/desc)</param>
     /// <returns>API response with list of products</returns>
-    Task<ApiResponse<ProductListResponse>> GetProductsAsync(int page = 1, int pageSize = 10, string? categoria = null, bool? activo = null, string? searchTerm = null);
+    Task<ApiResponse<ProductListResponse>> GetProductsAsync(int page = 1, int pageSize = 10, string? categoria = null, bool? activo = null, string? searchTerm = null, string? sortField = null, string? sortOrder = null);
 
     /// <summary>
     /// Gets all product categories
@@ -70,6 +73,13 @@ public interface IProductosComponent
     /// </summary>
     /// <returns>API response with list of low stock products</returns>
     Task<ApiResponse<List<Producto>>> GetLowStockProductsAsync();
+
+    /// <summary>
+    /// Gets the product's change history: stock movements plus price and status changes, newest first
+    /// </summary>
+    /// <param name="productoId">Product ID</param>
+    /// <returns>API response with the product's movements</returns>
+    Task<ApiResponse<List<MovimientoInventario>>> GetProductHistoryAsync(string productoId);
 }
 
 /// <summary>
@@ -97,6 +107,16 @@ public class CreateProductRequest
     public int StockMinimo { get; set; } = 10;
     public int StockMaximo { get; set; } = 1000;
     public string UnidadMedida { get; set; } = "Unidad";
+
+    /// <summary>
+    /// On updates, the FechaActualizacion the client loaded (optimistic concurrency). Null overwrites unconditionally.
+    /// </summary>
+    public DateTime? FechaActualizacion { get; set; }
+
+    /// <summary>
+    /// On updates, whether the product is active. Null reactivates it, as updates always did.
+    /// </summary>
+    public bool? Estado { get; set; }
 }
 
 /// <summary>
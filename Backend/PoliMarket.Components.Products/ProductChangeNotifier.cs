@@ -0,0 +1,79 @@
+using System.Collections.Concurrent;
+using System.Runtime.CompilerServices;
+using System.Threading.Channels;
+using PoliMarket.Models.Entities;
+
+namespace PoliMarket.Components.Products;
+
+/// <summary>
+/// Product change pushed to the clients watching the catalog
+/// </summary>
+public class ProductChange
+{
+    /// <summary>
+    /// created, updated or deleted
+    /// </summary>
+    public string Type { get; set; } = string.Empty;
+    public string ProductoId { get; set; } = string.Empty;
+    public Producto? Producto { get; set; }
+    public string Usuario { get; set; } = string.Empty;
+    public DateTime Fecha { get; set; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Broadcasts product changes to every open subscription (one per connected client)
+/// </summary>
+public interface IProductChangeNotifier
+{
+    /// <summary>
+    /// Send a change to all current subscribers
+    /// </summary>
+    void Publish(ProductChange change);
+
+    /// <summary>
+    /// Changes published from now on, until the token is cancelled
+    /// </summary>
+    IAsyncEnumerable<ProductChange> Subscribe(CancellationToken cancellationToken);
+}
+
+/// <summary>
+/// In-memory implementation; registered as a singleton so every request shares the subscribers
+/// </summary>
+public class ProductChangeNotifier : IProductChangeNotifier
+{
+    // A client that stops reading only loses its oldest changes instead of holding memory
+    private const int SubscriberBufferSize = 100;
+
+    private readonly ConcurrentDictionary<Guid, Channel<ProductChange>> _subscribers = new();
+
+    public void Publish(ProductChange change)
+    {
+        foreach (var channel in _subscribers.Values)
+        {
+            channel.Writer.TryWrite(change);
+        }
+    }
+
+    public async IAsyncEnumerable<ProductChange> Subscribe([EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        var id = Guid.NewGuid();
+        var channel = Channel.CreateBounded<ProductChange>(new BoundedChannelOptions(SubscriberBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true
+        });
+        _subscribers[id] = channel;
+
+        try
+        {
+            await foreach (var change in channel.Reader.ReadAllAsync(cancellationToken))
+            {
+                yield return change;
+            }
+        }
+        finally
+        {
+            _subscribers.TryRemove(id, out _);
+        }
+    }
+}
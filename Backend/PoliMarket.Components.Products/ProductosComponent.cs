@@ -1,6 +1,8 @@
+using System.Globalization;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using PoliMarket.Components.Infrastructure.Data;
+using PoliMarket.Components.Infrastructure.Services;
 using PoliMarket.Models.Entities;
 using PoliMarket.Models.Common;
 using PoliMarket.Contracts;
@@ -13,12 +15,22 @@ namespace PoliMarket.Components.Products;
 /// </summary>
 public class ProductosComponent : IProductosComponent
 {
+    private static readonly CultureInfo PriceCulture = new("es-CO");
+
     private readonly PoliMarketDbContext _context;
+    private readonly IAuditService _auditService;
+    private readonly IProductChangeNotifier _changeNotifier;
     private readonly ILogger<ProductosComponent> _logger;
 
-    public ProductosComponent(PoliMarketDbContext context, ILogger<ProductosComponent> logger)
+    public ProductosComponent(
+        PoliMarketDbContext context,
+        IAuditService auditService,
+        IProductChangeNotifier changeNotifier,
+        ILogger<ProductosComponent> logger)
     {
         _context = context;
+        _auditService = auditService;
+        _changeNotifier = changeNotifier;
         _logger = logger;
     }
 
@@ -28,6 +40,12 @@ public class ProductosComponent : IProductosComponent
         {
             _logger.LogInformation("Creating product: {ProductName}", producto.Nombre);
 
+            var validationErrors = ValidateProduct(producto);
+            if (validationErrors.Count > 0)
+            {
+                return ApiResponse<Producto>.ErrorResult("Datos de producto inválidos", validationErrors);
+            }
+
             // Generate ID if not provided
             if (string.IsNullOrEmpty(producto.Id))
             {
@@ -45,7 +63,9 @@ public class ProductosComponent : IProductosComponent
             producto.Estado = true;
 
             _context.Productos.Add(producto);
+            AddMovimiento(producto, "Creacion", producto.Stock, 0, producto.Stock, "Producto creado");
             await _context.SaveChangesAsync();
+            NotifyChange("created", producto);
 
             _logger.LogInformation("Product created successfully: {ProductId}", producto.Id);
             return ApiResponse<Producto>.SuccessResult(producto, "Producto creado exitosamente");
@@ -81,18 +101,40 @@ public class ProductosComponent : IProductosComponent
         }
     }
 
-    public async Task<ApiResponse<Producto>> UpdateProductAsync(string productoId, Producto producto)
+    public async Task<ApiResponse<Producto>> UpdateProductAsync(string productoId, Producto producto, DateTime? fechaActualizacionEsperada = null)
     {
         try
         {
             _logger.LogInformation("Updating product: {ProductId}", productoId);
 
+            var validationErrors = ValidateProduct(producto);
+            if (validationErrors.Count > 0)
+            {
+                return ApiResponse<Producto>.ErrorResult("Datos de producto inválidos", validationErrors);
+            }
+
             var existingProduct = await _context.Productos.FindAsync(productoId);
             if (existingProduct == null)
             {
                 return ApiResponse<Producto>.ErrorResult("Producto no encontrado");
             }
 
+            // Never-updated products are versioned by their creation date, as the client does
+            var versionActual = existingProduct.FechaActualizacion ?? existingProduct.FechaCreacion;
+            if (fechaActualizacionEsperada.HasValue && versionActual != fechaActualizacionEsperada.Value)
+            {
+                _logger.LogWarning("Concurrency conflict updating product: {ProductId}", productoId);
+                return new ApiResponse<Producto>
+                {
+                    Success = false,
+                    Message = "El producto fue modificado por otro usuario",
+                    Data = existingProduct,
+                    Errors = new List<string> { "fechaActualizacion: El producto cambió desde que se cargó" }
+                };
+            }
+
+            RecordChanges(existingProduct, producto);
+
             // Update properties
             existingProduct.Nombre = producto.Nombre;
             existingProduct.Descripcion = producto.Descripcion;
@@ -106,6 +148,7 @@ public class ProductosComponent : IProductosComponent
             existingProduct.FechaActualizacion = DateTime.UtcNow;
 
             await _context.SaveChangesAsync();
+            NotifyChange("updated", existingProduct);
 
             _logger.LogInformation("Product updated successfully: {ProductId}", productoId);
             return ApiResponse<Producto>.SuccessResult(existingProduct, "Producto actualizado exitosamente");
@@ -130,10 +173,15 @@ public class ProductosComponent : IProductosComponent
             }
 
             // Soft delete
+            if (producto.Estado)
+            {
+                AddMovimiento(producto, "CambioEstado", 0, producto.Stock, producto.Stock, "Producto eliminado (desactivado)");
+            }
             producto.Estado = false;
             producto.FechaActualizacion = DateTime.UtcNow;
 
             await _context.SaveChangesAsync();
+            NotifyChange("deleted", producto);
 
             _logger.LogInformation("Product deleted successfully: {ProductId}", productoId);
             return ApiResponse<bool>.SuccessResult(true, "Producto eliminado exitosamente");
@@ -145,7 +193,7 @@ public class ProductosComponent : IProductosComponent
         }
     }
 
-    public async Task<ApiResponse<ProductListResponse>> GetProductsAsync(int page = 1, int pageSize = 10, string? categoria = null, bool? activo = null, string? searchTerm = null)
+    public async Task<ApiResponse<ProductListResponse>> GetProductsAsync(int page = 1, int pageSize = 10, string? categoria = null, bool? activo = null, string? searchTerm = null, string? sortField = null, string? sortOrder = null)
     {
         try
         {
@@ -172,8 +220,7 @@ public class ProductosComponent : IProductosComponent
             var totalCount = await query.CountAsync();
             var totalPages = (int)Math.Ceiling((double)totalCount / pageSize);
 
-            var productos = await query
-                .OrderBy(p => p.Nombre)
+            var productos = await ApplySorting(query, sortField, sortOrder)
                 .Skip((page - 1) * pageSize)
                 .Take(pageSize)
                 .ToListAsync();
@@ -230,15 +277,24 @@ public class ProductosComponent : IProductosComponent
                 return ApiResponse<Producto>.ErrorResult("Producto no encontrado");
             }
 
+            // The signed-in user wins over the name in the request body, which the client can set freely
+            var usuarioSesion = _auditService.GetCurrentUserId();
+            if (usuarioSesion != "SYSTEM" || string.IsNullOrWhiteSpace(usuarioResponsable))
+            {
+                usuarioResponsable = usuarioSesion;
+            }
+
             var precioAnterior = producto.Precio;
             producto.Precio = nuevoPrecio;
             producto.FechaActualizacion = DateTime.UtcNow;
 
-            // Create price change log (could be implemented as a separate entity)
+            AddMovimiento(producto, "CambioPrecio", 0, producto.Stock, producto.Stock,
+                $"Precio: {FormatPrice(precioAnterior)} → {FormatPrice(nuevoPrecio)}", usuarioResponsable);
             _logger.LogInformation("Price changed for product {ProductId}: {OldPrice} -> {NewPrice} by {User}", 
                 productoId, precioAnterior, nuevoPrecio, usuarioResponsable);
 
             await _context.SaveChangesAsync();
+            NotifyChange("updated", producto, usuarioResponsable);
 
             return ApiResponse<Producto>.SuccessResult(producto, "Precio actualizado exitosamente");
         }
@@ -269,6 +325,188 @@ public class ProductosComponent : IProductosComponent
         }
     }
 
+    public async Task<ApiResponse<List<MovimientoInventario>>> GetProductHistoryAsync(string productoId)
+    {
+        try
+        {
+            _logger.LogInformation("Getting history for product: {ProductId}", productoId);
+
+            if (!await _context.Productos.AnyAsync(p => p.Id == productoId))
+            {
+                return ApiResponse<List<MovimientoInventario>>.ErrorResult("Producto no encontrado");
+            }
+
+            var movimientos = await _context.MovimientosInventario
+                .Where(m => m.IdProducto == productoId)
+                .OrderByDescending(m => m.FechaMovimiento)
+                .ToListAsync();
+
+            return ApiResponse<List<MovimientoInventario>>.SuccessResult(movimientos, $"Se encontraron {movimientos.Count} movimientos");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting history for product: {ProductId}", productoId);
+            return ApiResponse<List<MovimientoInventario>>.ErrorResult("Error interno del servidor", ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Business rules for product data. Each error is prefixed with the camelCase
+    /// request field it refers to ("campo: mensaje") so clients can attach it to the input.
+    /// </summary>
+    private static List<string> ValidateProduct(Producto producto)
+    {
+        var errors = new List<string>();
+
+        if (string.IsNullOrWhiteSpace(producto.Nombre))
+        {
+            errors.Add("nombre: El nombre es requerido");
+        }
+        else if (producto.Nombre.Length > 100)
+        {
+            errors.Add("nombre: El nombre no puede superar 100 caracteres");
+        }
+
+        if (string.IsNullOrWhiteSpace(producto.Categoria))
+        {
+            errors.Add("categoria: La categoría es requerida");
+        }
+        else if (producto.Categoria.Length > 50)
+        {
+            errors.Add("categoria: La categoría no puede superar 50 caracteres");
+        }
+
+        if (producto.Descripcion?.Length > 500)
+        {
+            errors.Add("descripcion: La descripción no puede superar 500 caracteres");
+        }
+
+        if (producto.UnidadMedida?.Length > 20)
+        {
+            errors.Add("unidadMedida: La unidad de medida no puede superar 20 caracteres");
+        }
+
+        if (producto.Precio <= 0)
+        {
+            errors.Add("precio: El precio debe ser mayor que cero");
+        }
+
+        if (producto.Stock < 0)
+        {
+            errors.Add("stock: El stock no puede ser negativo");
+        }
+
+        if (producto.StockMinimo < 0)
+        {
+            errors.Add("stockMinimo: El stock mínimo no puede ser negativo");
+        }
+
+        if (producto.StockMaximo <= 0)
+        {
+            errors.Add("stockMaximo: El stock máximo debe ser mayor que cero");
+        }
+        else if (producto.StockMinimo > producto.StockMaximo)
+        {
+            errors.Add("stockMaximo: El stock máximo debe ser mayor o igual al stock mínimo");
+        }
+        else if (producto.Stock > producto.StockMaximo)
+        {
+            errors.Add("stock: El stock no puede superar el stock máximo");
+        }
+
+        return errors;
+    }
+
+    private static IQueryable<Producto> ApplySorting(IQueryable<Producto> query, string? sortField, string? sortOrder)
+    {
+        var descending = string.Equals(sortOrder, "desc", StringComparison.OrdinalIgnoreCase);
+
+        // Only whitelisted fields can be sorted on; anything else falls back to name
+        return sortField?.ToLowerInvariant() switch
+        {
+            "id" => descending ? query.OrderByDescending(p => p.Id) : query.OrderBy(p => p.Id),
+            "categoria" => descending ? query.OrderByDescending(p => p.Categoria) : query.OrderBy(p => p.Categoria),
+            "precio" => descending ? query.OrderByDescending(p => p.Precio) : query.OrderBy(p => p.Precio),
+            "stock" => descending ? query.OrderByDescending(p => p.Stock) : query.OrderBy(p => p.Stock),
+            "fechaactualizacion" => descending ? query.OrderByDescending(p => p.FechaActualizacion) : query.OrderBy(p => p.FechaActualizacion),
+            _ => descending ? query.OrderByDescending(p => p.Nombre) : query.OrderBy(p => p.Nombre)
+        };
+    }
+
+    /// <summary>
+    /// Adds a history movement for each tracked field (stock, price, status) that
+    /// the update changes. Must run before the new values are copied over.
+    /// </summary>
+    private void RecordChanges(Producto existing, Producto updated)
+    {
+        var diferenciaStock = updated.Stock - existing.Stock;
+        if (diferenciaStock != 0)
+        {
+            AddMovimiento(existing, diferenciaStock > 0 ? "Entrada" : "Salida", Math.Abs(diferenciaStock),
+                existing.Stock, updated.Stock, "Actualización de producto");
+        }
+
+        if (existing.Precio != updated.Precio)
+        {
+            AddMovimiento(existing, "CambioPrecio", 0, existing.Stock, existing.Stock,
+                $"Precio: {FormatPrice(existing.Precio)} → {FormatPrice(updated.Precio)}");
+        }
+
+        if (existing.Estado != updated.Estado)
+        {
+            AddMovimiento(existing, "CambioEstado", 0, existing.Stock, existing.Stock,
+                updated.Estado ? "Producto activado" : "Producto desactivado");
+        }
+    }
+
+    private void AddMovimiento(Producto producto, string tipo, int cantidad, int stockAnterior, int stockNuevo, string motivo, string? usuario = null)
+    {
+        _context.MovimientosInventario.Add(new MovimientoInventario
+        {
+            IdProducto = producto.Id,
+            TipoMovimiento = tipo,
+            Cantidad = cantidad,
+            StockAnterior = stockAnterior,
+            StockNuevo = stockNuevo,
+            Motivo = motivo,
+            FechaMovimiento = DateTime.UtcNow,
+            UsuarioResponsable = string.IsNullOrWhiteSpace(usuario) ? _auditService.GetCurrentUserId() : usuario
+        });
+    }
+
+    // Only called after the change is saved, so clients never see a rolled-back version.
+    // Subscribers get a detached copy without navigations (movements carry who made them).
+    private void NotifyChange(string type, Producto producto, string? usuario = null)
+    {
+        _changeNotifier.Publish(new ProductChange
+        {
+            Type = type,
+            ProductoId = producto.Id,
+            Producto = new Producto
+            {
+                Id = producto.Id,
+                Nombre = producto.Nombre,
+                Descripcion = producto.Descripcion,
+                Precio = producto.Precio,
+                Categoria = producto.Categoria,
+                Estado = producto.Estado,
+                Stock = producto.Stock,
+                StockMinimo = producto.StockMinimo,
+                StockMaximo = producto.StockMaximo,
+                UnidadMedida = producto.UnidadMedida,
+                FechaCreacion = producto.FechaCreacion,
+                FechaActualizacion = producto.FechaActualizacion
+            },
+            Usuario = string.IsNullOrWhiteSpace(usuario) ? _auditService.GetCurrentUserId() : usuario,
+            Fecha = DateTime.UtcNow
+        });
+    }
+
+    private static string FormatPrice(double precio)
+    {
+        return $"${precio.ToString("N0", PriceCulture)}";
+    }
+
     private string GenerateProductId()
     {
         return $"PROD{DateTime.UtcNow:yyyyMMddHHmmss}{Random.Shared.Next(100, 999)}";
@@ -36,8 +36,9 @@ public interface IAutorizacionComponent
     /// <param name="codigoVendedor">Seller code</param>
     /// <param name="autorizado">New authorization status</param>
     /// <param name="empleadoRH">HR employee making the change</param>
+    /// <param name="motivo">Reason for the change, kept in the authorization history</param>
     /// <returns>API response with update result</returns>
-    Task<ApiResponse<Vendedor>> UpdateAuthorizationStatusAsync(string codigoVendedor, bool autorizado, string empleadoRH);
+    Task<ApiResponse<Vendedor>> UpdateAuthorizationStatusAsync(string codigoVendedor, bool autorizado, string empleadoRH, string motivo);
 
     /// <summary>
     /// Validates HR employee permissions
@@ -64,6 +65,13 @@ public interface IAutorizacionComponent
     /// </summary>
     /// <returns>API response with list of pending sellers</returns>
     Task<ApiResponse<List<Vendedor>>> GetPendingSellersAsync();
+
+    /// <summary>
+    /// Gets the authorization changes of a seller, newest first
+    /// </summary>
+    /// <param name="codigoVendedor">Seller code</param>
+    /// <returns>API response with the seller's authorization history</returns>
+    Task<ApiResponse<List<HistorialAutorizacion>>> GetAuthorizationHistoryAsync(string codigoVendedor);
 }
 
 /// <summary>
@@ -17,6 +17,21 @@ public class Vendedor
     public bool Activo { get; set; } = true;
 }
 
+/// <summary>
+/// Records a change of a seller's authorization: the initial grant and every
+/// later revocation or re-authorization, with the reason given by HR
+/// </summary>
+public class HistorialAutorizacion
+{
+    public string Id { get; set; } = Guid.NewGuid().ToString();
+    public string CodigoVendedor { get; set; } = string.Empty;
+    public bool Autorizado { get; set; }
+    public string Motivo { get; set; } = string.Empty;
+    public string EmpleadoRH { get; set; } = string.Empty;
+    public string UsuarioResponsable { get; set; } = string.Empty;
+    public DateTime Fecha { get; set; } = DateTime.UtcNow;
+}
+
 /// <summary>
 /// Represents an HR employee who can authorize sellers
 /// </summary>
@@ -26,13 +26,14 @@ public class Producto
 }
 
 /// <summary>
-/// Represents an inventory movement
+/// Represents an inventory movement. Price and status changes are recorded as
+/// movements too (Cantidad 0), so together they form the product's change history.
 /// </summary>
 public class MovimientoInventario
 {
     public string Id { get; set; } = Guid.NewGuid().ToString();
     public string IdProducto { get; set; } = string.Empty;
-    public string TipoMovimiento { get; set; } = string.Empty; // "Entrada", "Salida", "Ajuste"
+    public string TipoMovimiento { get; set; } = string.Empty; // "Entrada", "Salida", "Ajuste", "Creacion", "CambioPrecio", "CambioEstado"
     public int Cantidad { get; set; }
     public int StockAnterior { get; set; }
     public int StockNuevo { get; set; }
@@ -1,32 +1,108 @@
-import { Component } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import { MessageService } from 'primeng/api';
+import { Subscription } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { UserRole } from './services/api.service';
+import { AuthService, SessionEndReason } from './services/auth.service';
+import { ConnectivityService } from './services/connectivity.service';
+import { HealthCheck, HealthService } from './services/health.service';
+import { OfflineService } from './services/offline.service';
+import { LanguageService } from './services/language.service';
+import { SessionTimeoutService } from './services/session-timeout.service';
+import { StockAlertService } from './services/stock-alert.service';
+
+// Translation keys of the toast shown for each way a session can end
+const SESSION_END_MESSAGES: Record<SessionEndReason, { severity: string; summary: string; detail: string }> = {
+  logout: { severity: 'info', summary: 'session.closedSummary', detail: 'session.logoutDetail' },
+  expired: { severity: 'warn', summary: 'session.expiredSummary', detail: 'session.expiredDetail' },
+  idle: { severity: 'warn', summary: 'session.closedSummary', detail: 'session.idleDetail' },
+  unauthorized: { severity: 'warn', summary: 'session.expiredSummary', detail: 'session.unauthorizedDetail' },
+  remote: { severity: 'info', summary: 'session.closedSummary', detail: 'session.remoteDetail' }
+};
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
-export class AppComponent {
-  title = 'PoliMarket - Product Management';
+export class AppComponent implements OnInit, OnDestroy {
+  // Idle warning countdown, null while hidden
+  idleSecondsRemaining: number | null = null;
+
+  currentUser$ = this.authService.currentUser$;
+  stockAlertCount$ = this.stockAlertService.count$;
+  online$ = this.connectivityService.online$;
+  pendingChangeCount$ = this.offlineService.queue$.pipe(map(queue => queue.length));
+  latestHealth$ = this.healthService.latest$;
+
+  private subscriptions = new Subscription();
 
   constructor(
     private router: Router,
-    private messageService: MessageService
+    private messageService: MessageService,
+    private authService: AuthService,
+    private sessionTimeoutService: SessionTimeoutService,
+    private stockAlertService: StockAlertService,
+    private connectivityService: ConnectivityService,
+    private offlineService: OfflineService,
+    private healthService: HealthService,
+    private languageService: LanguageService
   ) {}
 
+  ngOnInit() {
+    this.subscriptions.add(
+      this.authService.sessionEnded$.subscribe(reason => this.onSessionEnded(reason))
+    );
+    this.subscriptions.add(
+      this.sessionTimeoutService.secondsRemaining$.subscribe(seconds => this.idleSecondsRemaining = seconds)
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
   isLoggedIn(): boolean {
-    // Check if user is logged in (simplified for demo)
-    return localStorage.getItem('currentUser') !== null;
+    return this.authService.isLoggedIn();
+  }
+
+  roleLabel(rol: UserRole): string {
+    return this.languageService.translate(`roles.${UserRole[rol] ?? 'unknown'}`);
+  }
+
+  healthIcon(check: HealthCheck | null): string {
+    switch (check?.status) {
+      case 'online':
+        return 'pi-check-circle';
+      case 'degraded':
+        return 'pi-exclamation-triangle';
+      case 'offline':
+        return 'pi-times-circle';
+      default:
+        return 'pi-spin pi-spinner';
+    }
   }
 
   logout() {
-    localStorage.removeItem('currentUser');
+    this.authService.logout();
+  }
+
+  stayLoggedIn() {
+    this.sessionTimeoutService.keepAlive();
+  }
+
+  private onSessionEnded(reason: SessionEndReason) {
+    const message = SESSION_END_MESSAGES[reason];
     this.messageService.add({
-      severity: 'info',
-      summary: 'Sesión Cerrada',
-      detail: 'Ha cerrado sesión exitosamente'
+      severity: message.severity,
+      summary: this.languageService.translate(message.summary),
+      detail: this.languageService.translate(message.detail)
     });
-    this.router.navigate(['/login']);
+
+    // Involuntary sign-outs return the user to the same page after re-login
+    const currentUrl = this.router.url;
+    const keepReturnUrl = reason !== 'logout' && !currentUrl.startsWith('/login');
+    this.router.navigate(['/login'], keepReturnUrl ? { queryParams: { returnUrl: currentUrl } } : {});
   }
-}
\ No newline at end of file
+}
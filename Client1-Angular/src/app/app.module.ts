@@ -1,7 +1,9 @@
-import { NgModule } from '@angular/core';
+import { DEFAULT_CURRENCY_CODE, LOCALE_ID, NgModule } from '@angular/core';
+import { registerLocaleData } from '@angular/common';
+import localeEsCO from '@angular/common/locales/es-CO';
 import { BrowserModule } from '@angular/platform-browser';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
-import { HttpClientModule } from '@angular/common/http';
+import { HTTP_INTERCEPTORS, HttpClientModule } from '@angular/common/http';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { RouterModule, Routes } from '@angular/router';
 
@@ -24,24 +26,77 @@ import { PanelModule } from 'primeng/panel';
 import { DividerModule } from 'primeng/divider';
 import { InputNumberModule } from 'primeng/inputnumber';
 import { TooltipModule } from 'primeng/tooltip';
+import { BadgeModule } from 'primeng/badge';
+import { CheckboxModule } from 'primeng/checkbox';
+import { ChartModule } from 'primeng/chart';
+import { RadioButtonModule } from 'primeng/radiobutton';
+import { TimelineModule } from 'primeng/timeline';
+import { AutoCompleteModule } from 'primeng/autocomplete';
 
 // Components
 import { AppComponent } from './app.component';
 import { AuthorizationComponent } from './components/authorization.component';
 import { ProductDashboardComponent } from './components/product-dashboard.component';
+import { VendedoresComponent } from './components/vendedores.component';
+import { StockAlertsComponent } from './components/stock-alerts.component';
+import { ReorderComponent } from './components/reorder.component';
+import { ProductImportComponent } from './components/product-import.component';
+import { ReportsComponent } from './components/reports.component';
+import { DiagnosticsComponent } from './components/diagnostics.component';
+import { OfflineStatusComponent } from './components/offline-status.component';
+import { ProductConflictComponent } from './components/product-conflict.component';
+import { ProductBulkActionsComponent } from './components/product-bulk-actions.component';
+import { PriceSimulatorComponent } from './components/price-simulator.component';
+import { ProductDetailComponent } from './components/product-detail.component';
+import { HrEmployeesComponent } from './components/hr-employees.component';
+import { HrEmployeePickerComponent } from './components/hr-employee-picker.component';
+import { CommissionCalculatorComponent } from './components/commission-calculator.component';
+import { SellerDetailComponent } from './components/seller-detail.component';
+import { LanguageSwitcherComponent } from './components/language-switcher.component';
+import { HealthStatusComponent } from './components/health-status.component';
 
 
+// Directives
+import { HasPermissionDirective } from './directives/has-permission.directive';
+
+// Pipes
+import { MoneyPipe } from './pipes/money.pipe';
+import { TranslatePipe } from './pipes/translate.pipe';
+
 // Services
 import { ApiService } from './services/api.service';
+import { LanguageService } from './services/language.service';
+
+// Interceptors
+import { CorrelationInterceptor } from './interceptors/correlation.interceptor';
+import { AuthInterceptor } from './interceptors/auth.interceptor';
+import { ResilienceInterceptor } from './interceptors/resilience.interceptor';
+
+// Guards
+import { AuthGuard } from './guards/auth.guard';
+
+// Configuration
+import { environment } from '../environments/environment';
 
 // PrimeNG Services
 import { MessageService } from 'primeng/api';
 import { ConfirmationService } from 'primeng/api';
 
+registerLocaleData(localeEsCO);
+
 const routes: Routes = [
   { path: '', redirectTo: '/login', pathMatch: 'full' },
   { path: 'login', component: AuthorizationComponent },
-  { path: 'products', component: ProductDashboardComponent },
+  { path: 'products', component: ProductDashboardComponent, canActivate: [AuthGuard], data: { permission: 'products.view' } },
+  { path: 'products/:id', component: ProductDetailComponent, canActivate: [AuthGuard], data: { permission: 'products.view' } },
+  { path: 'vendedores', component: VendedoresComponent, canActivate: [AuthGuard], data: { permission: 'sellers.view' } },
+  { path: 'vendedores/:codigo', component: SellerDetailComponent, canActivate: [AuthGuard], data: { permission: 'sellers.view' } },
+  { path: 'hr-employees', component: HrEmployeesComponent, canActivate: [AuthGuard], data: { permission: 'hr.view' } },
+  { path: 'alerts', component: StockAlertsComponent, canActivate: [AuthGuard], data: { permission: 'products.view' } },
+  { path: 'reorder', component: ReorderComponent, canActivate: [AuthGuard], data: { permission: 'products.edit' } },
+  { path: 'reports', component: ReportsComponent, canActivate: [AuthGuard], data: { permission: 'products.view' } },
+  { path: 'diagnostics', component: DiagnosticsComponent, canActivate: [AuthGuard], data: { permission: 'diagnostics.view' } },
+  { path: 'status', component: HealthStatusComponent, canActivate: [AuthGuard] },
   { path: '**', redirectTo: '/login' }
 ];
 
@@ -49,7 +104,27 @@ const routes: Routes = [
   declarations: [
     AppComponent,
     AuthorizationComponent,
-    ProductDashboardComponent
+    ProductDashboardComponent,
+    VendedoresComponent,
+    StockAlertsComponent,
+    ReorderComponent,
+    ProductImportComponent,
+    ReportsComponent,
+    DiagnosticsComponent,
+    OfflineStatusComponent,
+    ProductConflictComponent,
+    ProductBulkActionsComponent,
+    PriceSimulatorComponent,
+    ProductDetailComponent,
+    HrEmployeesComponent,
+    HrEmployeePickerComponent,
+    CommissionCalculatorComponent,
+    SellerDetailComponent,
+    LanguageSwitcherComponent,
+    HealthStatusComponent,
+    HasPermissionDirective,
+    MoneyPipe,
+    TranslatePipe
   ],
   imports: [
     BrowserModule,
@@ -77,12 +152,25 @@ const routes: Routes = [
     PanelModule,
     DividerModule,
     InputNumberModule,
-    TooltipModule
+    TooltipModule,
+    BadgeModule,
+    CheckboxModule,
+    ChartModule,
+    RadioButtonModule,
+    TimelineModule,
+    AutoCompleteModule
   ],
   providers: [
     ApiService,
     MessageService,
-    ConfirmationService
+    ConfirmationService,
+    // Angular's date/number pipes follow the user's language (en-US data ships with Angular)
+    { provide: LOCALE_ID, useFactory: (languageService: LanguageService) => languageService.language, deps: [LanguageService] },
+    { provide: DEFAULT_CURRENCY_CODE, useValue: environment.currency },
+    // Order matters: correlation wraps auth, which wraps timeout/retry
+    { provide: HTTP_INTERCEPTORS, useClass: CorrelationInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: ResilienceInterceptor, multi: true }
   ],
   bootstrap: [AppComponent]
 })
@@ -1,7 +1,9 @@
 import { Component, OnInit } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { MessageService } from 'primeng/api';
 import { ApiService, LoginRequest, LoginResponse } from '../services/api.service';
+import { AuthService } from '../services/auth.service';
+import { LanguageService } from '../services/language.service';
 
 @Component({
   selector: 'app-authorization',
@@ -12,17 +14,27 @@ export class AuthorizationComponent implements OnInit {
   username: string = '';
   password: string = '';
   isLoading: boolean = false;
+  returnUrl: string = '/products';
 
   constructor(
     private apiService: ApiService,
+    private authService: AuthService,
     private messageService: MessageService,
-    private router: Router
+    private languageService: LanguageService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit() {
+    // Return to the page the user was on when the session expired
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+    if (returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('/login')) {
+      this.returnUrl = returnUrl;
+    }
+
     // Check if already logged in
-    if (localStorage.getItem('currentUser')) {
-      this.router.navigate(['/products']);
+    if (this.authService.isLoggedIn()) {
+      this.router.navigateByUrl(this.returnUrl);
     }
   }
 
@@ -30,8 +42,8 @@ export class AuthorizationComponent implements OnInit {
     if (!this.username || !this.password) {
       this.messageService.add({
         severity: 'warn',
-        summary: 'Campos Requeridos',
-        detail: 'Por favor ingrese usuario y contraseña'
+        summary: this.languageService.translate('common.requiredSummary'),
+        detail: this.languageService.translate('login.requiredDetail')
       });
       return;
     }
@@ -46,24 +58,22 @@ export class AuthorizationComponent implements OnInit {
 
     this.apiService.login(loginRequest).subscribe({
       next: (response: LoginResponse) => {
-        // Store user info and token
-        localStorage.setItem('currentUser', JSON.stringify(response.usuario));
-        localStorage.setItem('authToken', response.token);
+        this.authService.startSession(response);
         
         this.messageService.add({
           severity: 'success',
-          summary: 'Login Exitoso',
-          detail: `Bienvenido ${response.usuario.nombre}`
+          summary: this.languageService.translate('login.successSummary'),
+          detail: this.languageService.translate('login.welcome', { nombre: response.usuario.nombre })
         });
         
-        this.router.navigate(['/products']);
+        this.router.navigateByUrl(this.returnUrl);
         this.isLoading = false;
       },
       error: (error) => {
         this.messageService.add({
           severity: 'error',
-          summary: 'Error de Autenticación',
-          detail: error.message || 'Usuario o contraseña incorrectos'
+          summary: this.languageService.translate('login.errorSummary'),
+          detail: error.message || this.languageService.translate('login.errorDetail')
         });
         
         this.isLoading = false;
@@ -0,0 +1,33 @@
+import { Component, Input } from '@angular/core';
+import { CommissionProjection, projectCommission } from '../models/seller.model';
+import { Vendedor } from '../services/api.service';
+
+/**
+ * Projects a seller's earnings for a monthly sales amount. Picking a seller
+ * fills in their commission rate, which can still be edited to try others.
+ */
+@Component({
+  selector: 'app-commission-calculator',
+  templateUrl: './commission-calculator.component.html',
+  styleUrls: ['./commission-calculator.component.scss']
+})
+export class CommissionCalculatorComponent {
+  @Input() vendedores: Vendedor[] = [];
+
+  selectedVendedor: Vendedor | null = null;
+  salesAmount: number | null = null;
+  commissionRate: number | null = null;
+
+  get projection(): CommissionProjection | null {
+    return this.salesAmount && this.commissionRate !== null
+      ? projectCommission(this.salesAmount, this.commissionRate)
+      : null;
+  }
+
+  onVendedorChange(vendedor: Vendedor | null) {
+    this.selectedVendedor = vendedor;
+    if (vendedor) {
+      this.commissionRate = vendedor.comision;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Component } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { BehaviorSubject, Observable, combineLatest } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { ApiCallEntry, ApiCallOutcome, DiagnosticsService } from '../services/diagnostics.service';
+import { LanguageService } from '../services/language.service';
+
+// Translation keys
+const OUTCOME_LABELS: Record<ApiCallOutcome, string> = {
+  success: 'diagnostics.outcomes.success',
+  error: 'diagnostics.outcomes.error',
+  cancelled: 'diagnostics.outcomes.cancelled'
+};
+
+@Component({
+  selector: 'app-diagnostics',
+  templateUrl: './diagnostics.component.html',
+  styleUrls: ['./diagnostics.component.scss']
+})
+export class DiagnosticsComponent {
+  readonly outcomeLabels: Record<string, string> = OUTCOME_LABELS;
+
+  private readonly errorsOnly$ = new BehaviorSubject<boolean>(false);
+
+  readonly entries$: Observable<ApiCallEntry[]> = combineLatest([
+    this.diagnosticsService.entries$,
+    this.errorsOnly$
+  ]).pipe(
+    map(([entries, errorsOnly]) => errorsOnly ? entries.filter(entry => entry.outcome === 'error') : entries)
+  );
+
+  readonly errorCount$: Observable<number> = this.diagnosticsService.entries$.pipe(
+    map(entries => entries.filter(entry => entry.outcome === 'error').length)
+  );
+
+  constructor(
+    private diagnosticsService: DiagnosticsService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {}
+
+  get errorsOnly(): boolean {
+    return this.errorsOnly$.value;
+  }
+
+  set errorsOnly(value: boolean) {
+    this.errorsOnly$.next(value);
+  }
+
+  severity(entry: ApiCallEntry): 'success' | 'danger' | 'warning' {
+    switch (entry.outcome) {
+      case 'success':
+        return 'success';
+      case 'error':
+        return 'danger';
+      default:
+        return 'warning';
+    }
+  }
+
+  copyReport(entries: ApiCallEntry[]) {
+    this.copy(this.diagnosticsService.buildReport(entries), this.languageService.translate('diagnostics.messages.reportCopied'));
+  }
+
+  copyEntry(entry: ApiCallEntry) {
+    this.copy(
+      this.diagnosticsService.buildReport([entry]),
+      this.languageService.translate('diagnostics.messages.entryCopied', { id: entry.correlationId })
+    );
+  }
+
+  clear() {
+    this.diagnosticsService.clear();
+  }
+
+  private copy(text: string, detail: string) {
+    navigator.clipboard.writeText(text).then(
+      () => this.messageService.add({
+        severity: 'success',
+        summary: this.languageService.translate('diagnostics.messages.copiedSummary'),
+        detail
+      }),
+      () => this.messageService.add({
+        severity: 'error',
+        summary: this.languageService.translate('common.error'),
+        detail: this.languageService.translate('diagnostics.messages.clipboardError')
+      })
+    );
+  }
+}
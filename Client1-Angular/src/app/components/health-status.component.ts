@@ -0,0 +1,58 @@
+import { Component } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { HealthCheck, HealthService } from '../services/health.service';
+
+type HealthCause = 'none' | 'user' | 'server';
+
+@Component({
+  selector: 'app-health-status',
+  templateUrl: './health-status.component.html',
+  styleUrls: ['./health-status.component.scss']
+})
+export class HealthStatusComponent {
+  readonly checks$: Observable<HealthCheck[]>;
+  readonly checking$: Observable<boolean>;
+  readonly intervalSeconds = environment.healthCheckInterval / 1000;
+
+  constructor(private healthService: HealthService) {
+    this.checks$ = healthService.checks$;
+    this.checking$ = healthService.checking$;
+  }
+
+  checkNow() {
+    this.healthService.checkNow();
+  }
+
+  // Whose side a failure is on, so the user knows whether to check their own connection
+  cause(check: HealthCheck): HealthCause {
+    if (check.status === 'online') {
+      return 'none';
+    }
+    return check.issue === 'noNetwork' ? 'user' : 'server';
+  }
+
+  severity(check: HealthCheck): 'success' | 'warning' | 'danger' {
+    switch (check.status) {
+      case 'online':
+        return 'success';
+      case 'degraded':
+        return 'warning';
+      default:
+        return 'danger';
+    }
+  }
+
+  // Share of the recorded checks that found the server fully online
+  availability(checks: HealthCheck[]): number {
+    return checks.filter(check => check.status === 'online').length / checks.length;
+  }
+
+  // Only checks the server answered; timeouts would skew the average
+  averageLatency(checks: HealthCheck[]): number | null {
+    const answered = checks.filter(check => check.httpStatus !== 0 && check.httpStatus !== 408);
+    return answered.length
+      ? Math.round(answered.reduce((total, check) => total + check.latencyMs, 0) / answered.length)
+      : null;
+  }
+}
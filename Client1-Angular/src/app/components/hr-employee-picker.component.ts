@@ -0,0 +1,101 @@
+import { Component, Input, OnDestroy, OnInit, forwardRef } from '@angular/core';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { Subscription } from 'rxjs';
+import { matchesEmployee } from '../models/hr-employee.model';
+import { ApiService, EmpleadoRH } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * Form control for the `empleadoRH` of authorization requests: an autocomplete
+ * over active HR employees whose value is the selected employee's ID. Text
+ * that does not match an employee leaves the value empty.
+ */
+@Component({
+  selector: 'app-hr-employee-picker',
+  templateUrl: './hr-employee-picker.component.html',
+  styleUrls: ['./hr-employee-picker.component.scss'],
+  providers: [{
+    provide: NG_VALUE_ACCESSOR,
+    useExisting: forwardRef(() => HrEmployeePickerComponent),
+    multi: true
+  }]
+})
+export class HrEmployeePickerComponent implements ControlValueAccessor, OnInit, OnDestroy {
+  @Input() inputId: string = 'empleadoRH';
+  @Input() placeholder: string;
+
+  employees: EmpleadoRH[] = [];
+  suggestions: EmpleadoRH[] = [];
+  // The autocomplete model: an employee once picked, the typed text before that
+  selected: EmpleadoRH | string | null = null;
+  isLoading: boolean = false;
+  isDisabled: boolean = false;
+  loadError: string | null = null;
+
+  private value: string = '';
+  private loadSubscription: Subscription | null = null;
+  private onChange: (id: string) => void = () => {};
+  onTouched: () => void = () => {};
+
+  constructor(
+    private apiService: ApiService,
+    private languageService: LanguageService
+  ) {
+    this.placeholder = languageService.translate('hrEmployees.picker.placeholder');
+  }
+
+  ngOnInit() {
+    this.isLoading = true;
+    this.loadSubscription = this.apiService.searchHREmployees('').subscribe({
+      next: (employees) => {
+        this.employees = employees;
+        this.selected = this.findEmployee(this.value);
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.loadError = error.message || this.languageService.translate('hrEmployees.loadError');
+        this.isLoading = false;
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+  }
+
+  search(event: AutoCompleteCompleteEvent) {
+    this.suggestions = this.employees
+      .filter(employee => matchesEmployee(employee, event.query))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  onModelChange(model: EmpleadoRH | string | null) {
+    this.selected = model;
+    this.value = model && typeof model === 'object' ? model.id : '';
+    this.onChange(this.value);
+  }
+
+  writeValue(id: string | null) {
+    this.value = id ?? '';
+    this.selected = this.findEmployee(this.value);
+  }
+
+  registerOnChange(fn: (id: string) => void) {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void) {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean) {
+    this.isDisabled = isDisabled;
+  }
+
+  private findEmployee(id: string): EmpleadoRH | null {
+    return this.employees.find(employee => employee.id === id) ?? null;
+  }
+}
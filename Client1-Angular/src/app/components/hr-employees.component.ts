@@ -0,0 +1,89 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { Subscription } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { matchesEmployee } from '../models/hr-employee.model';
+import { ApiService, EmpleadoRH } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+
+type StatusFilter = 'activos' | 'inactivos' | 'todos';
+
+@Component({
+  selector: 'app-hr-employees',
+  templateUrl: './hr-employees.component.html',
+  styleUrls: ['./hr-employees.component.scss']
+})
+export class HrEmployeesComponent implements OnInit, OnDestroy {
+  // Data
+  employees: EmpleadoRH[] = [];
+  departmentOptions: { label: string; value: string }[] = [];
+  readonly statusOptions: { label: string; value: StatusFilter }[];
+
+  // Filters
+  searchTerm: string = '';
+  departamento: string = '';
+  estado: StatusFilter = 'activos';
+
+  // UI State
+  isLoading: boolean = false;
+  readonly pageSize = environment.defaultHRPageSize;
+
+  private loadSubscription: Subscription | null = null;
+
+  constructor(
+    private apiService: ApiService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {
+    this.statusOptions = (['activos', 'inactivos', 'todos'] as const).map(value => ({
+      label: languageService.translate(`hrEmployees.filters.${value}`),
+      value
+    }));
+  }
+
+  ngOnInit() {
+    this.loadEmployees();
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+  }
+
+  // The directory is small and the backend returns it whole, so filtering is local
+  get filteredEmployees(): EmpleadoRH[] {
+    return this.employees.filter(employee =>
+      (this.estado === 'todos' || employee.activo === (this.estado === 'activos'))
+      && (!this.departamento || employee.departamento === this.departamento)
+      && matchesEmployee(employee, this.searchTerm)
+    );
+  }
+
+  loadEmployees() {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = true;
+
+    this.loadSubscription = this.apiService.getHREmployees().subscribe({
+      next: (employees) => {
+        this.employees = employees;
+        const departments = [...new Set(employees.map(employee => employee.departamento).filter(Boolean))].sort();
+        this.departmentOptions = [{ label: this.languageService.translate('hrEmployees.filters.allDepartments'), value: '' }]
+          .concat(departments.map(d => ({ label: d, value: d })));
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: this.languageService.translate('common.error'),
+          detail: error.message || this.languageService.translate('hrEmployees.loadError')
+        });
+        this.isLoading = false;
+      }
+    });
+  }
+
+  clearFilters() {
+    this.searchTerm = '';
+    this.departamento = '';
+    this.estado = 'activos';
+  }
+}
@@ -0,0 +1,25 @@
+import { Component } from '@angular/core';
+import { Language } from '../i18n/language';
+import { LanguageService } from '../services/language.service';
+
+/**
+ * Language picker shown in the header and on the login page.
+ */
+@Component({
+  selector: 'app-language-switcher',
+  templateUrl: './language-switcher.component.html',
+  styleUrls: ['./language-switcher.component.scss']
+})
+export class LanguageSwitcherComponent {
+  readonly languages: { code: Language; label: string }[];
+  readonly language: Language;
+
+  constructor(private languageService: LanguageService) {
+    this.languages = languageService.languages;
+    this.language = languageService.language;
+  }
+
+  onLanguageChange(language: Language) {
+    this.languageService.setLanguage(language);
+  }
+}
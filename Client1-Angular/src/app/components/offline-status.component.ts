@@ -0,0 +1,70 @@
+import { Component, Input } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { ConnectivityService } from '../services/connectivity.service';
+import { LanguageService } from '../services/language.service';
+import { ConflictResolution, MutationType, OfflineService, QueuedMutation } from '../services/offline.service';
+
+// Translation keys
+const MUTATION_LABELS: Record<MutationType, string> = {
+  create: 'offline.mutations.create',
+  update: 'offline.mutations.update',
+  delete: 'offline.mutations.delete'
+};
+
+/**
+ * Offline banners for the product dashboard plus the review dialog for queued
+ * changes that could not be replayed.
+ */
+@Component({
+  selector: 'app-offline-status',
+  templateUrl: './offline-status.component.html',
+  styleUrls: ['./offline-status.component.scss']
+})
+export class OfflineStatusComponent {
+  // When the cached catalog being shown was saved; null while showing live data
+  @Input() snapshotAt: Date | null = null;
+
+  readonly mutationLabels: Record<string, string> = MUTATION_LABELS;
+
+  readonly online$ = this.connectivityService.online$;
+  readonly queue$ = this.offlineService.queue$;
+  readonly needsAttention$ = this.offlineService.needsAttention$;
+
+  showReview: boolean = false;
+  resolvingId: number | null = null;
+
+  constructor(
+    private connectivityService: ConnectivityService,
+    private offlineService: OfflineService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {}
+
+  syncNow() {
+    if (this.connectivityService.isOnline) {
+      this.offlineService.replay();
+    } else {
+      // Replay starts on its own once the probe succeeds
+      this.connectivityService.probe();
+    }
+  }
+
+  async resolve(mutation: QueuedMutation, resolution: ConflictResolution) {
+    this.resolvingId = mutation.id ?? null;
+    try {
+      await this.offlineService.resolve(mutation, resolution);
+      this.messageService.add({
+        severity: resolution === 'discard' ? 'info' : 'success',
+        summary: this.languageService.translate(resolution === 'discard' ? 'offline.messages.discardedSummary' : 'offline.messages.appliedSummary'),
+        detail: mutation.productName
+      });
+    } catch (error) {
+      this.messageService.add({
+        severity: 'error',
+        summary: this.languageService.translate('common.error'),
+        detail: (error as Error).message || this.languageService.translate('offline.messages.applyError')
+      });
+    }
+    this.resolvingId = null;
+  }
+}
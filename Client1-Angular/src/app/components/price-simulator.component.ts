@@ -0,0 +1,78 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { PriceBreakdown, PricingService } from '../services/pricing.service';
+
+/**
+ * Price preview in the product dialog: net, discount, IVA and total for the
+ * price being edited. Discounts are measured against the price the dialog
+ * opened with, so applying twice replaces the discount instead of stacking it;
+ * discounts above the configured maximum are shown as an error and cannot be applied.
+ */
+@Component({
+  selector: 'app-price-simulator',
+  templateUrl: './price-simulator.component.html',
+  styleUrls: ['./price-simulator.component.scss']
+})
+export class PriceSimulatorComponent implements OnChanges {
+  // Net price currently in the form
+  @Input() price: number | null = null;
+  // Saved net price of the product being edited; null for new products
+  @Input() basePrice: number | null = null;
+  // Emits the discounted net price to put back into the form
+  @Output() applyDiscount = new EventEmitter<number>();
+
+  discountPercentage: number = 0;
+  breakdown: PriceBreakdown | null = null;
+  discountError: string | null = null;
+  // New products have no saved price: the last discount is tracked while its result is in the form
+  private lastApplied: { base: number; result: number } | null = null;
+
+  readonly taxPercentage: number;
+  readonly maxDiscount: number;
+
+  constructor(private pricingService: PricingService) {
+    this.taxPercentage = pricingService.taxRate * 100;
+    this.maxDiscount = pricingService.maxDiscountPercentage;
+  }
+
+  ngOnChanges() {
+    this.recalculate();
+  }
+
+  onDiscountChange(value: number | null) {
+    this.discountPercentage = value ?? 0;
+    this.recalculate();
+  }
+
+  // Price the discount is measured against
+  get referencePrice(): number | null {
+    if (this.basePrice) {
+      return this.basePrice;
+    }
+    if (this.lastApplied && this.lastApplied.result === this.price) {
+      return this.lastApplied.base;
+    }
+    return this.price;
+  }
+
+  get canApply(): boolean {
+    return !!this.breakdown && !this.discountError && !!this.discountPercentage
+      && this.breakdown.discountedNet !== this.price;
+  }
+
+  apply() {
+    const base = this.referencePrice;
+    if (!this.canApply || !this.breakdown || !base) {
+      return;
+    }
+    this.lastApplied = { base, result: this.breakdown.discountedNet };
+    this.applyDiscount.emit(this.breakdown.discountedNet);
+  }
+
+  private recalculate() {
+    const base = this.referencePrice;
+    this.discountError = this.pricingService.validateDiscount(this.discountPercentage);
+    this.breakdown = base
+      ? this.pricingService.breakdown(base, this.discountError ? 0 : this.discountPercentage)
+      : null;
+  }
+}
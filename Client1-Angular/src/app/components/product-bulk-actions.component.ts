@@ -0,0 +1,210 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { ConfirmationService } from 'primeng/api';
+import { Observable, Subscription, forkJoin, from, of, throwError } from 'rxjs';
+import { bufferCount, catchError, concatMap, finalize, map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { toProductForm, toUpdateProductRequest } from '../models/product.mapper';
+import { Product, ProductFormModel } from '../models/product.model';
+import { ApiError, UpdateProductRequest } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+import { OfflineService } from '../services/offline.service';
+import { validateProductRequest } from '../validators/product.validators';
+
+type BulkAction = 'activate' | 'deactivate' | 'category' | 'price' | 'delete';
+
+type BulkStatus = 'pending' | 'saved' | 'queued' | 'failed';
+
+interface BulkItem {
+  product: Product;
+  status: BulkStatus;
+  error?: string;
+}
+
+const BULK_BATCH_SIZE = 5;
+
+// Translation keys
+const ACTION_LABELS: Record<BulkAction, string> = {
+  activate: 'products.bulk.actions.activate',
+  deactivate: 'products.bulk.actions.deactivate',
+  category: 'products.bulk.actions.category',
+  price: 'products.bulk.actions.price',
+  delete: 'products.bulk.actions.delete'
+};
+
+/**
+ * Toolbar for the products selected in the dashboard table. Each product is
+ * saved on its own, so one failure does not stop the rest; the result dialog
+ * lists the ones that failed.
+ */
+@Component({
+  selector: 'app-product-bulk-actions',
+  templateUrl: './product-bulk-actions.component.html',
+  styleUrls: ['./product-bulk-actions.component.scss']
+})
+export class ProductBulkActionsComponent implements OnDestroy {
+  @Input() selection: Product[] = [];
+  @Output() selectionChange = new EventEmitter<Product[]>();
+  @Input() categories: string[] = [];
+  @Output() completed = new EventEmitter<void>();
+
+  readonly actionLabels = ACTION_LABELS;
+  readonly maxDiscount = environment.maxDiscountPercentage;
+
+  // Parameters dialog (category and price)
+  pendingAction: BulkAction | null = null;
+  newCategory: string = '';
+  pricePercentage: number | null = null;
+
+  // Progress and result dialog
+  runningAction: BulkAction | null = null;
+  items: BulkItem[] = [];
+  processed: number = 0;
+  isRunning: boolean = false;
+
+  private runSubscription: Subscription | null = null;
+
+  constructor(
+    private offlineService: OfflineService,
+    private languageService: LanguageService,
+    private confirmationService: ConfirmationService
+  ) {}
+
+  ngOnDestroy() {
+    this.runSubscription?.unsubscribe();
+  }
+
+  get progress(): number {
+    return this.items.length ? Math.round(this.processed / this.items.length * 100) : 0;
+  }
+
+  get failedItems(): BulkItem[] {
+    return this.items.filter(item => item.status === 'failed');
+  }
+
+  get savedCount(): number {
+    return this.items.filter(item => item.status === 'saved').length;
+  }
+
+  get queuedCount(): number {
+    return this.items.filter(item => item.status === 'queued').length;
+  }
+
+  get canApplyParameters(): boolean {
+    if (this.pendingAction === 'category') {
+      return this.newCategory.trim().length > 0;
+    }
+    return this.pricePercentage !== null
+      && this.pricePercentage !== 0
+      && this.pricePercentage >= -this.maxDiscount;
+  }
+
+  start(action: BulkAction) {
+    if (!this.selection.length) {
+      return;
+    }
+
+    if (action === 'category' || action === 'price') {
+      this.newCategory = '';
+      this.pricePercentage = null;
+      this.pendingAction = action;
+      return;
+    }
+
+    if (action === 'delete') {
+      this.confirmationService.confirm({
+        message: this.languageService.translate('products.bulk.deleteConfirm', { count: this.selection.length }),
+        header: this.languageService.translate('products.messages.deleteHeader'),
+        icon: 'pi pi-exclamation-triangle',
+        acceptLabel: this.languageService.translate('products.messages.deleteAccept'),
+        rejectLabel: this.languageService.translate('common.cancel'),
+        acceptButtonStyleClass: 'p-button-danger',
+        accept: () => this.run(action)
+      });
+      return;
+    }
+
+    this.run(action);
+  }
+
+  applyParameters() {
+    const action = this.pendingAction;
+    if (!action || !this.canApplyParameters) {
+      return;
+    }
+    this.pendingAction = null;
+    this.run(action);
+  }
+
+  closeResult() {
+    this.runningAction = null;
+    this.items = [];
+  }
+
+  private run(action: BulkAction) {
+    this.runningAction = action;
+    this.items = this.selection.map(product => ({ product, status: 'pending' }));
+    this.processed = 0;
+    this.isRunning = true;
+
+    this.runSubscription = from(this.items).pipe(
+      bufferCount(BULK_BATCH_SIZE),
+      concatMap(batch => forkJoin(batch.map(item => this.apply(action, item)))),
+      finalize(() => this.finish())
+    ).subscribe();
+  }
+
+  // Each item reports its own outcome so one failure does not abort the batch
+  private apply(action: BulkAction, item: BulkItem): Observable<void> {
+    return this.save(action, item.product).pipe(
+      map(result => {
+        item.status = result === null ? 'queued' : 'saved';
+      }),
+      catchError(error => {
+        item.status = 'failed';
+        item.error = error instanceof ApiError && error.status === 409
+          ? this.languageService.translate('products.bulk.conflictError')
+          : error.errors?.length ? error.errors.join(', ') : error.message || this.languageService.translate('products.bulk.saveError');
+        return of(undefined);
+      }),
+      finalize(() => this.processed++)
+    );
+  }
+
+  private save(action: BulkAction, product: Product): Observable<unknown> {
+    if (action === 'delete') {
+      return this.offlineService.deleteProduct(product);
+    }
+
+    const request = this.buildRequest(action, product);
+    const errors = validateProductRequest(request, this.languageService);
+    if (errors.length) {
+      return throwError(() => ({ errors }));
+    }
+    return this.offlineService.updateProduct(product, request);
+  }
+
+  // Only the targeted field changes; estado only differs for activate/deactivate
+  private buildRequest(action: BulkAction, product: Product): UpdateProductRequest {
+    const changes: Partial<ProductFormModel> = {};
+    if (action === 'category') {
+      changes.categoria = this.newCategory;
+    } else if (action === 'price') {
+      changes.precio = Math.round(product.precio * (1 + (this.pricePercentage ?? 0) / 100) * 100) / 100;
+    }
+
+    const estado = action === 'activate' || (action !== 'deactivate' && product.activo);
+    return {
+      ...toUpdateProductRequest({ ...toProductForm(product), ...changes }, product),
+      estado
+    };
+  }
+
+  private finish() {
+    this.runSubscription = null;
+    this.isRunning = false;
+
+    // Failed products stay selected so the action can be retried on them
+    this.selectionChange.emit(this.failedItems.map(item => item.product));
+    this.completed.emit();
+  }
+}
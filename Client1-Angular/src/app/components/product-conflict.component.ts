@@ -0,0 +1,116 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { toProductForm } from '../models/product.mapper';
+import { Product, ProductFormModel } from '../models/product.model';
+import { formatMoney } from '../pipes/money.pipe';
+
+// An edit rejected because the product was saved by someone else in the meantime
+export interface ProductConflict {
+  // Values the edit dialog was opened with
+  original: ProductFormModel;
+  // Values the user tried to save
+  mine: ProductFormModel;
+  // Product as it is now on the server
+  current: Product;
+}
+
+export type ConflictAction = 'merge' | 'overwrite' | 'discard';
+
+export interface ConflictResolution {
+  action: ConflictAction;
+  // Values to save; omitted on discard
+  model?: ProductFormModel;
+}
+
+type ConflictField = Exclude<keyof ProductFormModel, 'id'>;
+
+interface FieldDiff {
+  field: ConflictField;
+  // Translation key
+  label: string;
+  mine: ProductFormModel[ConflictField];
+  theirs: ProductFormModel[ConflictField];
+  changedByMe: boolean;
+  changedByThem: boolean;
+  choice: 'mine' | 'theirs';
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  nombre: 'products.conflict.fields.nombre',
+  categoria: 'products.conflict.fields.categoria',
+  descripcion: 'products.conflict.fields.descripcion',
+  precio: 'products.conflict.fields.precio',
+  stockActual: 'products.conflict.fields.stockActual',
+  stockMinimo: 'products.conflict.fields.stockMinimo',
+  stockMaximo: 'products.conflict.fields.stockMaximo',
+  unidadMedida: 'products.conflict.fields.unidadMedida'
+};
+
+/**
+ * Side-by-side view of the user's edit and the current server values. Merge
+ * keeps the user's value for fields they changed and the server value for the
+ * rest, adjustable per field.
+ */
+@Component({
+  selector: 'app-product-conflict',
+  templateUrl: './product-conflict.component.html',
+  styleUrls: ['./product-conflict.component.scss']
+})
+export class ProductConflictComponent implements OnChanges {
+  @Input() conflict: ProductConflict | null = null;
+  @Input() saving: boolean = false;
+  @Output() resolved = new EventEmitter<ConflictResolution>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  diffs: FieldDiff[] = [];
+
+  ngOnChanges() {
+    this.diffs = this.conflict ? this.buildDiffs(this.conflict) : [];
+  }
+
+  get bothChangedCount(): number {
+    return this.diffs.filter(diff => diff.changedByMe && diff.changedByThem).length;
+  }
+
+  format(diff: FieldDiff, value: ProductFormModel[ConflictField]): string {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    return diff.field === 'precio' ? formatMoney(Number(value)) : String(value);
+  }
+
+  resolve(action: ConflictAction) {
+    if (!this.conflict) {
+      return;
+    }
+
+    if (action === 'discard') {
+      this.resolved.emit({ action });
+      return;
+    }
+
+    const model: ProductFormModel = { ...this.conflict.mine };
+    if (action === 'merge') {
+      for (const diff of this.diffs) {
+        (model as Record<ConflictField, unknown>)[diff.field] = diff.choice === 'mine' ? diff.mine : diff.theirs;
+      }
+    }
+    this.resolved.emit({ action, model });
+  }
+
+  private buildDiffs({ original, mine, current }: ProductConflict): FieldDiff[] {
+    const theirs = toProductForm(current);
+
+    return (Object.keys(FIELD_LABELS) as ConflictField[]).map(field => {
+      const changedByMe = mine[field] !== original[field];
+      return {
+        field,
+        label: FIELD_LABELS[field],
+        mine: mine[field],
+        theirs: theirs[field],
+        changedByMe,
+        changedByThem: theirs[field] !== original[field],
+        choice: changedByMe ? 'mine' : 'theirs'
+      };
+    });
+  }
+}
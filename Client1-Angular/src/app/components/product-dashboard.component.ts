@@ -1,230 +1,636 @@
-import { Component, OnInit } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
 import { MessageService, ConfirmationService } from 'primeng/api';
-import { ApiService, ProductListResponse} from '../services/api.service';
+import { TableLazyLoadEvent } from 'primeng/table';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { debounceTime } from 'rxjs/operators';
+import { ApiError, ApiService, ProductChange, ProductListResponse, SortOrder } from '../services/api.service';
+import { AuthService } from '../services/auth.service';
+import { LanguageService, TranslationParams } from '../services/language.service';
+import { OfflineService, isPendingProductId } from '../services/offline.service';
+import { PricingService } from '../services/pricing.service';
+import { ProductChangesMode, ProductChangesService } from '../services/product-changes.service';
+import { ProductSpreadsheetService, SpreadsheetFormat } from '../services/product-spreadsheet.service';
+import { StockAlertService } from '../services/stock-alert.service';
+import { environment } from '../../environments/environment';
+import { Product, ProductFormModel } from '../models/product.model';
+import { emptyProductForm, sameVersion, toCreateProductRequest, toProduct, toProductForm, toUpdateProductRequest } from '../models/product.mapper';
+import { PRODUCT_LIMITS, applyServerErrors, stockLimitsValidator } from '../validators/product.validators';
+import { ConflictResolution, ProductConflict } from './product-conflict.component';
 
-interface Product {
-  id: string;
-  nombre: string;
+type StatusFilter = 'activos' | 'inactivos' | 'todos';
+
+// Table state mirrored in the URL query string so views can be bookmarked
+interface ProductQuery {
+  page: number;
+  pageSize: number;
   categoria: string;
-  precio: number;
-  stockActual: number;
-  stockMinimo: number;
-  stockMaximo: number;
-  proveedor: string;
-  fechaActualizacion: Date;
-  activo: boolean;
-  descripcion?: string;
-  unidadMedida?: string;
+  estado: StatusFilter;
+  searchTerm: string;
+  sortField: string;
+  sortOrder: SortOrder;
 }
 
+const SORTABLE_FIELDS = ['id', 'nombre', 'categoria', 'precio', 'stock'];
+
+// Backend error field names that differ from the form control names
+const SERVER_FIELD_MAP: Record<string, string> = { stock: 'stockActual' };
+
+// Validation errors with a message under products.fieldErrors
+const FIELD_ERROR_KEYS = ['required', 'maxlength', 'min', 'precioMin', 'stockRange', 'stockAboveMax'];
+
+// How long rows changed while the page is open stay highlighted
+const RECENT_CHANGE_HIGHLIGHT_MS = 5000;
 
 @Component({
   selector: 'app-product-dashboard',
   templateUrl: './product-dashboard.component.html',
   styleUrls: ['./product-dashboard.component.scss']
 })
-export class ProductDashboardComponent implements OnInit {
+export class ProductDashboardComponent implements OnInit, OnDestroy {
   // Data
   products: Product[] = [];
-  filteredProducts: Product[] = [];
+  // Kept across pages (rows are matched by id); bulk actions narrow it to the failed ones
+  selectedProducts: Product[] = [];
+  totalRecords: number = 0;
+  categoryOptions: { label: string; value: string }[];
+  readonly statusOptions: { label: string; value: StatusFilter }[];
 
-  // Filters (removed as requested)
+  // Filters
+  query: ProductQuery = this.parseQuery(null);
+  searchText: string = '';
+  private searchInput$ = new Subject<string>();
 
   // UI State
+  isLoading: boolean = false;
   showAddProduct: boolean = false;
-  newProduct: any = {};
+  isSaving: boolean = false;
+  editingProductId: string | null = null;
+  // Copy the edit dialog was opened with; its version is what the save is checked against
+  editingProduct: Product | null = null;
+  // Set while the table shows the offline cache instead of live data
+  offlineSnapshotAt: Date | null = null;
+  showImport: boolean = false;
+  exportingFormat: SpreadsheetFormat | null = null;
+  // Edit rejected because someone else saved the product first
+  conflict: ProductConflict | null = null;
+  readonly liveMode$: Observable<ProductChangesMode | null>;
+  readonly pollSeconds = environment.autoRefreshInterval / 1000;
+  // Product id -> timer that clears its highlight
+  private recentlyChanged = new Map<string, ReturnType<typeof setTimeout>>();
+
+  productForm: FormGroup;
+  // Price input formatting
+  readonly currency = environment.currency;
+  readonly locale: string;
+
+  private subscriptions = new Subscription();
+  private loadSubscription: Subscription | null = null;
 
   constructor(
     private apiService: ApiService,
     private messageService: MessageService,
     private confirmationService: ConfirmationService,
-    private router: Router
-  ) {}
+    private stockAlertService: StockAlertService,
+    private spreadsheetService: ProductSpreadsheetService,
+    private offlineService: OfflineService,
+    private pricingService: PricingService,
+    private languageService: LanguageService,
+    private productChangesService: ProductChangesService,
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private fb: FormBuilder
+  ) {
+    this.locale = languageService.language;
+    this.liveMode$ = productChangesService.mode$;
+    this.categoryOptions = [this.allCategoriesOption()];
+    this.statusOptions = [
+      { label: this.t('products.statusActive'), value: 'activos' },
+      { label: this.t('products.statusInactive'), value: 'inactivos' },
+      { label: this.t('products.statusAll'), value: 'todos' }
+    ];
+
+    this.productForm = this.fb.group({
+      nombre: ['', [Validators.required, Validators.maxLength(PRODUCT_LIMITS.nombreMaxLength)]],
+      categoria: ['', [Validators.required, Validators.maxLength(PRODUCT_LIMITS.categoriaMaxLength)]],
+      descripcion: ['', Validators.maxLength(PRODUCT_LIMITS.descripcionMaxLength)],
+      precio: [null as number | null, [Validators.required, Validators.min(PRODUCT_LIMITS.minPrecio)]],
+      stockActual: [0 as number | null, [Validators.required, Validators.min(0)]],
+      stockMinimo: [0 as number | null, [Validators.required, Validators.min(0)]],
+      stockMaximo: [0 as number | null, [Validators.required, Validators.min(1)]],
+      unidadMedida: ['', Validators.maxLength(PRODUCT_LIMITS.unidadMedidaMaxLength)]
+    }, { validators: stockLimitsValidator });
+  }
 
   ngOnInit() {
-    // Check if user is logged in
-    if (!localStorage.getItem('currentUser')) {
-      this.router.navigate(['/login']);
-      return;
-    }
-    
-    this.loadRealData();
-    this.initializeFilters();
+    this.loadCategories();
+
+    this.subscriptions.add(
+      this.route.queryParamMap.subscribe(params => {
+        this.query = this.parseQuery(params);
+        this.searchText = this.query.searchTerm;
+        this.loadRealData();
+      })
+    );
+
+    // Changes replayed after reconnecting are now on the server
+    this.subscriptions.add(
+      this.offlineService.synced$.subscribe(() => this.reloadAfterChange())
+    );
+
+    // Edits made by other users (and this one's, already reloaded) while the page is open
+    this.subscriptions.add(
+      this.productChangesService.changes$.subscribe(change => this.applyRemoteChange(change))
+    );
+
+    this.subscriptions.add(
+      this.searchInput$
+        .pipe(debounceTime(400))
+        .subscribe(term => this.updateQuery({ searchTerm: term.trim(), page: 1 }))
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+    this.loadSubscription?.unsubscribe();
+    this.recentlyChanged.forEach(timer => clearTimeout(timer));
   }
 
-  initializeFilters() {
-    // Filters removed as requested
-    console.log('Filters removed - showing all products');
+  get first(): number {
+    return (this.query.page - 1) * this.query.pageSize;
+  }
+
+  get tableSortOrder(): number {
+    return this.query.sortOrder === 'desc' ? -1 : 1;
+  }
+
+  get categories(): string[] {
+    return this.categoryOptions.filter(option => option.value).map(option => option.value);
+  }
+
+  loadCategories() {
+    this.apiService.getCategories().subscribe({
+      next: (categories) => {
+        this.categoryOptions = [this.allCategoriesOption()]
+          .concat(categories.map(c => ({ label: c, value: c })));
+      },
+      error: (error) => {
+        if (environment.enableDebugLogs) {
+          console.error('Error loading categories:', error);
+        }
+      }
+    });
+  }
+
+  // Quiet loads refresh the page in the background: no spinner, no error toast
+  loadRealData(quiet: boolean = false) {
+    const { page, pageSize, categoria, estado, searchTerm, sortField, sortOrder } = this.query;
+    const activo = this.activoFilter();
+
+    // A newer query supersedes any request still in flight
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = !quiet;
+
+    this.loadSubscription = this.apiService
+      .getProducts(page, pageSize, categoria || undefined, activo, searchTerm || undefined, sortField, sortOrder)
+      .subscribe({
+        next: (response: ProductListResponse) => {
+          this.products = response.products.map(toProduct);
+          this.totalRecords = response.totalCount;
+          this.offlineSnapshotAt = null;
+          this.isLoading = false;
+          this.offlineService.cacheCatalog(this.queryKey(), response);
+        },
+        error: (error) => {
+          if (environment.enableDebugLogs) {
+            console.error('Error loading products from API:', error);
+          }
+          if (quiet) {
+            return;
+          }
+          if (error instanceof ApiError && error.isNetworkError) {
+            this.loadCachedData();
+          } else {
+            this.products = [];
+            this.totalRecords = 0;
+            this.isLoading = false;
+            this.messageService.add({
+              severity: 'error',
+              summary: this.t('common.error'),
+              detail: error.message || this.t('products.messages.loadError')
+            });
+          }
+        }
+      });
   }
 
-  loadRealData() {
-    console.log('Loading real product data from API...');
+  // Last catalog seen for this query, with changes queued offline applied on top
+  private async loadCachedData() {
+    const cached = await this.offlineService.getCachedCatalog(this.queryKey());
+    const productos = this.offlineService.applyPending(cached?.response.products ?? []);
 
-    // Load products from API
-    this.apiService.getProducts(1, 100, undefined, true).subscribe({
-      next: (response: ProductListResponse) => {
-        console.log('API Response:', response);
+    this.products = productos.map(toProduct);
+    this.totalRecords = Math.max(cached?.response.totalCount ?? 0, productos.length);
+    this.offlineSnapshotAt = cached ? new Date(cached.cachedAt) : null;
+    this.isLoading = false;
 
-        // Convert API products to component format
-        this.products = response.products.map(producto => ({
-          id: producto.id,
-          nombre: producto.nombre,
-          categoria: producto.categoria,
-          precio: producto.precio,
-          stockActual: producto.stock,
-          stockMinimo: producto.stockMinimo,
-          stockMaximo: producto.stockMaximo,
-          proveedor: 'API Provider', // Default since API doesn't have provider field
-          fechaActualizacion: new Date(producto.fechaActualizacion || producto.fechaCreacion),
-          activo: producto.estado
-        }));
+    if (!cached) {
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.t('products.messages.offlineSummary'),
+        detail: this.t('products.messages.offlineNoCache')
+      });
+    }
+  }
 
-        console.log('Converted products:', this.products);
+  private queryKey(): string {
+    const { page, pageSize, categoria, estado, searchTerm, sortField, sortOrder } = this.query;
+    return [page, pageSize, categoria, estado, searchTerm, sortField, sortOrder].join('|');
+  }
 
-        // Generate mock data for other components since they don't have API endpoints yet
-        this.generateMockSupportingData();
+  // Exports every product matching the current filters, not just the visible page
+  exportProducts(format: SpreadsheetFormat) {
+    const { categoria, searchTerm } = this.query;
+    this.exportingFormat = format;
 
-        // Apply filters after data is loaded
-        this.filterProducts();
-        this.initializeFilters(); // Re-initialize filters after data loads
+    this.apiService.getAllProducts(categoria || undefined, this.activoFilter(), searchTerm || undefined).subscribe({
+      next: async (productos) => {
+        try {
+          const stamp = new Date().toISOString().slice(0, 10);
+          await this.spreadsheetService.exportProducts(productos.map(toProduct), format, `productos-${stamp}`);
+        } catch (error) {
+          this.showExportError(error as Error);
+        }
+        this.exportingFormat = null;
       },
       error: (error) => {
-        console.error('Error loading products from API:', error);
-        console.log('Falling back to mock data...');
-        this.loadMockData();
-        this.initializeFilters(); // Initialize filters after fallback data loads
+        this.showExportError(error);
+        this.exportingFormat = null;
       }
     });
   }
 
-  generateMockSupportingData() {
-    // Generate stock alerts based on real product data
+  private showExportError(error: Error) {
+    this.messageService.add({
+      severity: 'error',
+      summary: this.t('common.error'),
+      detail: error.message || this.t('products.messages.exportError')
+    });
   }
 
-  // Filter methods removed as requested
+  // Table and filter events only update the URL; the query param subscription reloads
+  onLazyLoad(event: TableLazyLoadEvent) {
+    const pageSize = event.rows ?? this.query.pageSize;
+    const sortField = typeof event.sortField === 'string' && SORTABLE_FIELDS.includes(event.sortField)
+      ? event.sortField
+      : this.query.sortField;
 
-  getSupplierOptions() {
-    const suppliers = [...new Set(this.products.map(p => p.proveedor))];
-    return [{label: 'Todos los proveedores', value: ''}].concat(
-      suppliers.map(s => ({label: s, value: s}))
-    );
+    this.updateQuery({
+      page: Math.floor((event.first ?? 0) / pageSize) + 1,
+      pageSize,
+      sortField,
+      sortOrder: event.sortOrder === -1 ? 'desc' : 'asc'
+    });
+  }
+
+  onSearchInput(term: string) {
+    this.searchInput$.next(term);
+  }
+
+  onCategoryChange(categoria: string) {
+    this.updateQuery({ categoria, page: 1 });
+  }
+
+  onStatusChange(estado: StatusFilter) {
+    this.updateQuery({ estado, page: 1 });
+  }
+
+  clearFilters() {
+    this.searchText = '';
+    this.updateQuery({ categoria: '', estado: 'activos', searchTerm: '', page: 1 });
+  }
+
+  private updateQuery(changes: Partial<ProductQuery>) {
+    const next = { ...this.query, ...changes };
+    const defaults = this.parseQuery(null);
+
+    // Only non-default values are written, keeping shared links short
+    this.router.navigate([], {
+      relativeTo: this.route,
+      replaceUrl: true,
+      queryParams: {
+        page: next.page !== defaults.page ? next.page : null,
+        size: next.pageSize !== defaults.pageSize ? next.pageSize : null,
+        categoria: next.categoria || null,
+        estado: next.estado !== defaults.estado ? next.estado : null,
+        q: next.searchTerm || null,
+        sort: next.sortField !== defaults.sortField ? next.sortField : null,
+        order: next.sortOrder !== defaults.sortOrder ? next.sortOrder : null
+      }
+    });
+  }
+
+  private activoFilter(): boolean | undefined {
+    return this.query.estado === 'todos' ? undefined : this.query.estado === 'activos';
   }
 
-  filterProducts() {
-    // Show all products - filters removed as requested
-    this.filteredProducts = this.products;
+  private parseQuery(params: ParamMap | null): ProductQuery {
+    const page = Number(params?.get('page'));
+    const pageSize = Number(params?.get('size'));
+    const estado = params?.get('estado') as StatusFilter | null;
+    const sortField = params?.get('sort') ?? '';
+    const sortOrder = params?.get('order');
+
+    return {
+      page: Number.isInteger(page) && page > 0 ? page : 1,
+      pageSize: Number.isInteger(pageSize) && pageSize > 0 && pageSize <= 100 ? pageSize : environment.defaultPageSize,
+      categoria: params?.get('categoria') ?? '',
+      estado: estado === 'inactivos' || estado === 'todos' ? estado : 'activos',
+      searchTerm: params?.get('q') ?? '',
+      sortField: SORTABLE_FIELDS.includes(sortField) ? sortField : 'nombre',
+      sortOrder: sortOrder === 'desc' ? 'desc' : 'asc'
+    };
   }
 
   getTotalInventoryValue(): number {
     return this.products.reduce((total, product) => total + (product.precio * product.stockActual), 0);
   }
 
-  addProduct() {
-    if (this.newProduct.nombre && this.newProduct.categoria && this.newProduct.precio) {
-      const productData = {
-        nombre: this.newProduct.nombre,
-        categoria: this.newProduct.categoria,
-        precio: this.newProduct.precio,
-        stock: this.newProduct.stockActual || 0,
-        stockMinimo: this.newProduct.stockMinimo || 5,
-        stockMaximo: this.newProduct.stockMaximo || 100,
-        descripcion: this.newProduct.descripcion || '',
-        unidadMedida: this.newProduct.unidadMedida || 'Unidad'
-      };
-      
-      this.apiService.createProduct(productData).subscribe({
-        next: (result) => {
-          this.messageService.add({
-            severity: 'success',
-            summary: 'Producto Creado',
-            detail: `Producto ${result.nombre} creado exitosamente`
-          });
-          this.loadRealData();
-          this.showAddProduct = false;
-          this.newProduct = {};
-        },
-        error: (error) => {
-          this.messageService.add({
-            severity: 'error',
-            summary: 'Error',
-            detail: error.message || 'Error al crear producto'
-          });
-        }
-      });
-    }
+  openAddProduct() {
+    this.openProductDialog(null, emptyProductForm());
+  }
+
+  get pricesWithTax(): boolean {
+    return this.pricingService.pricesWithTax;
+  }
+
+  setPricesWithTax(withTax: boolean) {
+    this.pricingService.setPricesWithTax(withTax);
+  }
+
+  displayPrice(net: number): number {
+    return this.pricingService.displayPrice(net);
+  }
+
+  applyDiscountedPrice(price: number) {
+    const control = this.productForm.get('precio');
+    control?.setValue(price);
+    control?.markAsDirty();
+  }
+
+  // Products created offline have no detail page until they are synced
+  isPending(product: Product): boolean {
+    return isPendingProductId(product.id);
   }
 
   editProduct(product: Product) {
-    this.newProduct = { ...product };
-    this.showAddProduct = true;
+    this.openProductDialog(product, toProductForm(product));
+  }
+
+  isRecentlyChanged(product: Product): boolean {
+    return this.recentlyChanged.has(product.id);
   }
 
-  updateProduct() {
-    if (!this.newProduct.id || !this.newProduct.nombre || !this.newProduct.precio) {
+  // Message for the first error on a control, shown once the user has touched it
+  fieldError(controlName: string): string | null {
+    const control = this.productForm.get(controlName);
+    if (!control || !(control.touched || control.dirty)) {
+      return null;
+    }
+
+    const errors = control.errors ?? {};
+    if (errors['server']) {
+      return errors['server'];
+    }
+    if (controlName === 'precio' && errors['min']) {
+      return this.t('products.fieldErrors.precioMin');
+    }
+
+    const groupErrors = this.productForm.errors ?? {};
+    const key = Object.keys(errors)[0]
+      ?? (controlName === 'stockMaximo' && groupErrors['stockRange'] ? 'stockRange' : null)
+      ?? (controlName === 'stockActual' && groupErrors['stockAboveMax'] ? 'stockAboveMax' : null);
+
+    if (!key) {
+      return null;
+    }
+    return this.t(`products.fieldErrors.${FIELD_ERROR_KEYS.includes(key) ? key : 'invalid'}`);
+  }
+
+  saveProduct() {
+    if (this.productForm.invalid) {
+      this.productForm.markAllAsTouched();
       this.messageService.add({
         severity: 'warn',
-        summary: 'Campos Requeridos',
-        detail: 'Por favor complete los campos obligatorios'
+        summary: this.t('common.requiredSummary'),
+        detail: this.t('common.fixFieldsDetail')
       });
       return;
     }
 
-    const productData = {
-      nombre: this.newProduct.nombre,
-      categoria: this.newProduct.categoria,
-      precio: this.newProduct.precio,
-      stock: this.newProduct.stockActual || 0,
-      stockMinimo: this.newProduct.stockMinimo || 5,
-      stockMaximo: this.newProduct.stockMaximo || 100,
-      descripcion: this.newProduct.descripcion || '',
-      unidadMedida: this.newProduct.unidadMedida || 'Unidad'
-    };
+    const formModel: ProductFormModel = this.productForm.getRawValue();
+    if (this.editingProduct) {
+      this.updateProduct(this.editingProduct, formModel);
+    } else {
+      this.addProduct(formModel);
+    }
+  }
 
-    this.apiService.updateProduct(this.newProduct.id, productData).subscribe({
+  private openProductDialog(product: Product | null, model: ProductFormModel) {
+    this.editingProduct = product;
+    this.editingProductId = product?.id ?? null;
+    this.productForm.reset(model);
+    this.showAddProduct = true;
+  }
+
+  private addProduct(formModel: ProductFormModel) {
+    this.isSaving = true;
+
+    this.offlineService.createProduct(toCreateProductRequest(formModel)).subscribe({
       next: (result) => {
-        this.messageService.add({
-          severity: 'success',
-          summary: 'Producto Actualizado',
-          detail: `Producto ${result.nombre} actualizado exitosamente`
-        });
-        this.loadRealData();
+        if (result) {
+          this.messageService.add({
+            severity: 'success',
+            summary: this.t('products.messages.createdSummary'),
+            detail: this.t('products.messages.createdDetail', { nombre: result.nombre })
+          });
+        }
+        this.isSaving = false;
         this.showAddProduct = false;
-        this.newProduct = {};
+        this.reloadAfterChange();
+      },
+      error: (error) => this.handleSaveError(error, this.t('products.messages.createError'))
+    });
+  }
+
+  private updateProduct(product: Product, formModel: ProductFormModel) {
+    this.isSaving = true;
+
+    this.offlineService.updateProduct(product, toUpdateProductRequest(formModel, product)).subscribe({
+      next: (result) => {
+        if (result) {
+          this.messageService.add({
+            severity: 'success',
+            summary: this.t('products.messages.updatedSummary'),
+            detail: this.t('products.messages.updatedDetail', { nombre: result.nombre })
+          });
+        }
+        this.isSaving = false;
+        this.showAddProduct = false;
+        this.conflict = null;
+        this.reloadAfterChange();
       },
       error: (error) => {
-        this.messageService.add({
-          severity: 'error',
-          summary: 'Error',
-          detail: error.message || 'Error al actualizar producto'
-        });
+        if (error instanceof ApiError && error.status === 409) {
+          this.openConflict(product, formModel);
+        } else {
+          this.handleSaveError(error, this.t('products.messages.updateError'));
+        }
       }
     });
   }
 
+  // The conflict response carries the server copy, but it is fetched again so
+  // the comparison uses the latest save
+  private openConflict(product: Product, formModel: ProductFormModel) {
+    this.apiService.getProductById(product.id).subscribe({
+      next: (current) => {
+        this.isSaving = false;
+        this.conflict = {
+          original: this.conflict?.original ?? toProductForm(product),
+          mine: formModel,
+          current: toProduct(current)
+        };
+      },
+      error: (error) => this.handleSaveError(error, this.t('products.messages.conflictLoadError'))
+    });
+  }
+
+  resolveConflict(resolution: ConflictResolution) {
+    const conflict = this.conflict;
+    if (!conflict) {
+      return;
+    }
+
+    if (resolution.action === 'discard' || !resolution.model) {
+      this.conflict = null;
+      this.showAddProduct = false;
+      this.messageService.add({
+        severity: 'info',
+        summary: this.t('products.messages.discardedSummary'),
+        detail: this.t('products.messages.discardedDetail', { nombre: conflict.current.nombre })
+      });
+      this.reloadAfterChange();
+      return;
+    }
+
+    // Saved against the version just reviewed; a newer save reopens the dialog
+    this.updateProduct(conflict.current, resolution.model);
+  }
+
+  // Closing the conflict dialog returns to the edit form with the user's values
+  cancelConflict() {
+    this.conflict = null;
+  }
+
+  // Bulk category changes may add categories
+  onBulkCompleted() {
+    this.loadCategories();
+    this.reloadAfterChange();
+  }
+
+  // Mutations can move products across their stock limits, so alerts are re-evaluated too
+  reloadAfterChange() {
+    this.loadRealData();
+    this.stockAlertService.refresh();
+  }
+
+  // Updates are patched into their row; creates and deletes can move rows
+  // between pages, so the page is reloaded instead
+  private applyRemoteChange(change: ProductChange) {
+    const index = this.products.findIndex(product => product.id === change.productoId);
+    const current = index >= 0 ? this.products[index] : null;
+    const updated = change.producto ? toProduct(change.producto) : null;
+
+    if (current && updated && sameVersion(current.version, updated.version)) {
+      return;
+    }
+
+    this.warnIfEditing(change, updated);
+
+    if (change.type === 'updated' && current && updated) {
+      this.products = this.products.map(product => product.id === updated.id ? updated : product);
+      this.selectedProducts = this.selectedProducts.map(product => product.id === updated.id ? updated : product);
+    } else if (!this.offlineSnapshotAt) {
+      this.loadRealData(true);
+    }
+    this.highlight(change.productoId);
+  }
+
+  // The save would be rejected as a conflict, so the user hears about it now
+  private warnIfEditing(change: ProductChange, updated: Product | null) {
+    const isOwnSave = this.isSaving || change.usuario === this.authService.currentUser?.username;
+    if (!this.showAddProduct || change.productoId !== this.editingProductId || isOwnSave || this.conflict) {
+      return;
+    }
+
+    const nombre = updated?.nombre ?? this.editingProduct?.nombre ?? change.productoId;
+    const key = change.type === 'deleted' ? 'products.live.editedDeleted' : 'products.live.editedUpdated';
+    this.messageService.add({
+      severity: 'warn',
+      summary: this.t('products.live.editedSummary'),
+      detail: this.t(key, { nombre, usuario: change.usuario || this.t('products.live.anotherUser') }),
+      life: 10000
+    });
+  }
+
+  private highlight(productId: string) {
+    clearTimeout(this.recentlyChanged.get(productId));
+    this.recentlyChanged.set(productId, setTimeout(() => this.recentlyChanged.delete(productId), RECENT_CHANGE_HIGHLIGHT_MS));
+  }
+
+  // Field-level backend errors go next to their inputs; the rest into the toast
+  private handleSaveError(error: Error, fallback: string) {
+    this.isSaving = false;
+
+    const fieldErrors = error instanceof ApiError ? error.errors : [];
+    const unmatched = applyServerErrors(this.productForm, fieldErrors, SERVER_FIELD_MAP);
+    const detail = unmatched.length ? unmatched.join(', ') : error.message || fallback;
+
+    this.messageService.add({
+      severity: 'error',
+      summary: this.t('common.error'),
+      detail
+    });
+  }
+
   deleteProduct(product: Product) {
     this.confirmationService.confirm({
-      message: `¿Está seguro de que desea eliminar el producto ${product.nombre}?`,
-      header: 'Confirmar Eliminación',
+      message: this.t('products.messages.deleteConfirm', { nombre: product.nombre }),
+      header: this.t('products.messages.deleteHeader'),
       icon: 'pi pi-exclamation-triangle',
-      acceptLabel: 'Sí, Eliminar',
-      rejectLabel: 'Cancelar',
+      acceptLabel: this.t('products.messages.deleteAccept'),
+      rejectLabel: this.t('common.cancel'),
       acceptButtonStyleClass: 'p-button-danger',
       accept: () => {
-        this.apiService.deleteProduct(product.id).subscribe({
+        this.offlineService.deleteProduct(product).subscribe({
           next: (result) => {
-            this.messageService.add({
-              severity: 'success',
-              summary: 'Producto Eliminado',
-              detail: `Producto ${product.nombre} eliminado exitosamente`
-            });
-            this.loadRealData();
+            if (result !== null) {
+              this.messageService.add({
+                severity: 'success',
+                summary: this.t('products.messages.deletedSummary'),
+                detail: this.t('products.messages.deletedDetail', { nombre: product.nombre })
+              });
+            }
+            this.reloadAfterChange();
           },
           error: (error) => {
             this.messageService.add({
               severity: 'error',
-              summary: 'Error',
-              detail: error.message || 'Error al eliminar producto'
+              summary: this.t('common.error'),
+              detail: error.message || this.t('products.messages.deleteError')
             });
           }
         });
@@ -232,64 +638,11 @@ export class ProductDashboardComponent implements OnInit {
     });
   }
 
+  private allCategoriesOption(): { label: string; value: string } {
+    return { label: this.t('products.allCategories'), value: '' };
+  }
 
-  // Fallback method for when API is not available
-  loadMockData() {
-    console.log('Loading mock data as fallback...');
-
-    // Mock Products
-    this.products = [
-      {
-        id: 'P001',
-        nombre: 'Laptop Dell Inspiron 15',
-        categoria: 'Electrónicos',
-        precio: 2500000,
-        stockActual: 15,
-        stockMinimo: 5,
-        stockMaximo: 50,
-        proveedor: 'TechSupply Colombia',
-        fechaActualizacion: new Date(),
-        activo: true
-      },
-      {
-        id: 'P002',
-        nombre: 'Mouse Logitech MX Master',
-        categoria: 'Accesorios',
-        precio: 350000,
-        stockActual: 3,
-        stockMinimo: 10,
-        stockMaximo: 100,
-        proveedor: 'TechSupply Colombia',
-        fechaActualizacion: new Date(),
-        activo: true
-      },
-      {
-        id: 'P003',
-        nombre: 'Monitor Samsung 24"',
-        categoria: 'Electrónicos',
-        precio: 800000,
-        stockActual: 0,
-        stockMinimo: 3,
-        stockMaximo: 20,
-        proveedor: 'Distribuidora Valle',
-        fechaActualizacion: new Date(),
-        activo: true
-      },
-      {
-        id: 'P004',
-        nombre: 'Teclado Mecánico RGB',
-        categoria: 'Accesorios',
-        precio: 450000,
-        stockActual: 12,
-        stockMinimo: 8,
-        stockMaximo: 40,
-        proveedor: 'TechSupply Colombia',
-        fechaActualizacion: new Date(),
-        activo: true
-      }
-    ];
-
-    // Apply filters
-    this.filterProducts();
+  private t(key: string, params?: TranslationParams): string {
+    return this.languageService.translate(key, params);
   }
 }
@@ -0,0 +1,130 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { toProduct } from '../models/product.mapper';
+import { Product } from '../models/product.model';
+import { HISTORY_KIND_LABELS, HistoryEntry, HistoryKind, toHistoryEntry } from '../models/product-history.model';
+import { STOCK_ALERT_LABELS, StockAlertLevel, classifyStock } from '../models/stock-alert.model';
+import { ApiError, ApiService } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+import { PricingService } from '../services/pricing.service';
+
+// Positions on the stock gauge, as percentages of its full width
+interface StockGauge {
+  level: StockAlertLevel | null;
+  fillPercent: number;
+  minimumPercent: number;
+  maximumPercent: number;
+}
+
+@Component({
+  selector: 'app-product-detail',
+  templateUrl: './product-detail.component.html',
+  styleUrls: ['./product-detail.component.scss']
+})
+export class ProductDetailComponent implements OnInit, OnDestroy {
+  product: Product | null = null;
+  gauge: StockGauge | null = null;
+  history: HistoryEntry[] = [];
+  kindFilter: HistoryKind | null = null;
+
+  isLoading: boolean = false;
+  isLoadingHistory: boolean = false;
+  notFound: boolean = false;
+  historyError: string | null = null;
+
+  readonly alertLabels = STOCK_ALERT_LABELS;
+  readonly kindOptions: { label: string; value: HistoryKind | null }[];
+
+  private subscriptions = new Subscription();
+  private loadSubscription: Subscription | null = null;
+  private historySubscription: Subscription | null = null;
+
+  constructor(
+    private apiService: ApiService,
+    private pricingService: PricingService,
+    private languageService: LanguageService,
+    private route: ActivatedRoute
+  ) {
+    this.kindOptions = [
+      { label: languageService.translate('products.detail.allKinds'), value: null },
+      ...(Object.keys(HISTORY_KIND_LABELS) as HistoryKind[])
+        .map(kind => ({ label: languageService.translate(HISTORY_KIND_LABELS[kind]), value: kind }))
+    ];
+  }
+
+  ngOnInit() {
+    this.subscriptions.add(
+      this.route.paramMap.subscribe(params => this.load(params.get('id') ?? ''))
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+    this.loadSubscription?.unsubscribe();
+    this.historySubscription?.unsubscribe();
+  }
+
+  get filteredHistory(): HistoryEntry[] {
+    return this.kindFilter ? this.history.filter(entry => entry.kind === this.kindFilter) : this.history;
+  }
+
+  get grossPrice(): number {
+    return this.product ? this.pricingService.gross(this.product.precio) : 0;
+  }
+
+  load(id: string) {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.notFound = false;
+
+    this.loadSubscription = this.apiService.getProductById(id).subscribe({
+      next: (producto) => {
+        this.product = toProduct(producto);
+        this.gauge = this.buildGauge(this.product);
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.product = null;
+        this.gauge = null;
+        this.notFound = error instanceof ApiError && error.status === 404;
+        this.isLoading = false;
+      }
+    });
+
+    this.loadHistory(id);
+  }
+
+  loadHistory(id: string) {
+    this.historySubscription?.unsubscribe();
+    this.isLoadingHistory = true;
+    this.historyError = null;
+
+    this.historySubscription = this.apiService.getProductHistory(id).subscribe({
+      next: (movimientos) => {
+        this.history = movimientos
+          .map(movimiento => toHistoryEntry(movimiento, this.languageService))
+          .sort((a, b) => b.fecha.getTime() - a.fecha.getTime());
+        this.isLoadingHistory = false;
+      },
+      error: (error) => {
+        this.history = [];
+        this.historyError = error.message || this.languageService.translate('products.detail.historyError');
+        this.isLoadingHistory = false;
+      }
+    });
+  }
+
+  // The scale runs to the maximum, or further when the product is overstocked
+  private buildGauge(product: Product): StockGauge {
+    const scale = Math.max(product.stockMaximo, product.stockActual, 1);
+    const percent = (value: number) => Math.min(100, Math.max(0, value / scale * 100));
+
+    return {
+      level: classifyStock(product),
+      fillPercent: percent(product.stockActual),
+      minimumPercent: percent(product.stockMinimo),
+      maximumPercent: percent(product.stockMaximo)
+    };
+  }
+}
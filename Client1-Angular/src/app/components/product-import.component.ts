@@ -0,0 +1,291 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { Observable, Subscription, forkJoin, from, of } from 'rxjs';
+import { bufferCount, catchError, concatMap, finalize, map, switchMap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { productVersion } from '../models/product.mapper';
+import { ApiService, CreateProductRequest, Producto } from '../services/api.service';
+import { LanguageService, TranslationParams } from '../services/language.service';
+import { PermissionService } from '../services/permission.service';
+import { ProductSpreadsheetService, SpreadsheetRow } from '../services/product-spreadsheet.service';
+import { validateProductRequest } from '../validators/product.validators';
+
+type ImportStep = 'select' | 'preview' | 'upload' | 'done';
+
+type ImportAction = 'create' | 'update';
+
+type ImportStatus = 'pending' | 'saved' | 'failed';
+
+interface ImportRow {
+  rowNumber: number;
+  request: CreateProductRequest;
+  // From the Estado column; updates without it keep the product's current state
+  // and creates without it are active
+  estado?: boolean;
+  action: ImportAction;
+  existing: Producto | null;
+  errors: string[];
+  status: ImportStatus;
+}
+
+const UPLOAD_BATCH_SIZE = 10;
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+// Names are matched loosely so "Mouse  logitech" updates "Mouse Logitech"
+function matchKey(nombre: string): string {
+  return nombre.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+@Component({
+  selector: 'app-product-import',
+  templateUrl: './product-import.component.html',
+  styleUrls: ['./product-import.component.scss']
+})
+export class ProductImportComponent implements OnDestroy {
+  @Input() visible: boolean = false;
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() imported = new EventEmitter<void>();
+
+  step: ImportStep = 'select';
+  fileName: string = '';
+  rows: ImportRow[] = [];
+  isParsing: boolean = false;
+  processed: number = 0;
+  uploadTotal: number = 0;
+
+  readonly accept = ACCEPTED_EXTENSIONS.join(',');
+  readonly maxUploadMb = environment.maxUploadSize / 1024 / 1024;
+
+  private uploadSubscription: Subscription | null = null;
+
+  constructor(
+    private apiService: ApiService,
+    private spreadsheetService: ProductSpreadsheetService,
+    private permissionService: PermissionService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {}
+
+  ngOnDestroy() {
+    this.uploadSubscription?.unsubscribe();
+  }
+
+  get validRows(): ImportRow[] {
+    return this.rows.filter(row => row.errors.length === 0);
+  }
+
+  get invalidCount(): number {
+    return this.rows.length - this.validRows.length;
+  }
+
+  get failedCount(): number {
+    return this.rows.filter(row => row.status === 'failed').length;
+  }
+
+  get savedCount(): number {
+    return this.rows.filter(row => row.status === 'saved').length;
+  }
+
+  get progress(): number {
+    return this.uploadTotal ? Math.round(this.processed / this.uploadTotal * 100) : 0;
+  }
+
+  onHide() {
+    // An upload in progress keeps running; only a finished wizard is reset
+    if (this.step !== 'upload') {
+      this.reset();
+    }
+    this.visibleChange.emit(false);
+  }
+
+  close() {
+    this.visible = false;
+    this.onHide();
+  }
+
+  reset() {
+    this.step = 'select';
+    this.fileName = '';
+    this.rows = [];
+    this.processed = 0;
+    this.uploadTotal = 0;
+  }
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.t('products.importDialog.messages.unsupportedSummary'),
+        detail: this.t('products.importDialog.messages.unsupportedDetail')
+      });
+      return;
+    }
+
+    if (file.size > environment.maxUploadSize) {
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.t('products.importDialog.messages.tooLargeSummary'),
+        detail: this.t('products.importDialog.messages.tooLargeDetail', { size: this.maxUploadMb })
+      });
+      return;
+    }
+
+    this.isParsing = true;
+    try {
+      const sheetRows = await this.spreadsheetService.readRows(file);
+      if (!sheetRows.length) {
+        throw new Error(this.t('products.importDialog.messages.emptyFile'));
+      }
+      this.fileName = file.name;
+      this.loadExisting(sheetRows);
+    } catch (error) {
+      this.isParsing = false;
+      this.messageService.add({
+        severity: 'error',
+        summary: this.t('products.importDialog.messages.readErrorSummary'),
+        detail: (error as Error).message || this.t('products.importDialog.messages.readErrorDetail')
+      });
+    }
+  }
+
+  private loadExisting(sheetRows: SpreadsheetRow[]) {
+    // Inactive products are included so a re-import does not duplicate them
+    this.apiService.getAllProducts().subscribe({
+      next: (productos) => {
+        this.rows = this.buildRows(sheetRows, productos);
+        this.step = 'preview';
+        this.isParsing = false;
+      },
+      error: (error) => {
+        this.isParsing = false;
+        this.messageService.add({
+          severity: 'error',
+          summary: this.t('common.error'),
+          detail: error.message || this.t('products.importDialog.messages.existingError')
+        });
+      }
+    });
+  }
+
+  private buildRows(sheetRows: SpreadsheetRow[], existing: Producto[]): ImportRow[] {
+    const existingByKey = new Map(existing.map(p => [matchKey(p.nombre), p]));
+    const canEdit = this.permissionService.can('products.edit');
+    const seen = new Set<string>();
+
+    return sheetRows.map((sheetRow, index) => {
+      const { request, estado, errors: parseErrors } = this.spreadsheetService.parseRow(sheetRow);
+      const errors = [...parseErrors, ...validateProductRequest(request, this.languageService)];
+      const key = matchKey(request.nombre);
+
+      if (key && seen.has(key)) {
+        errors.push(`nombre: ${this.t('products.importDialog.errors.duplicate')}`);
+      }
+      seen.add(key);
+
+      const match = existingByKey.get(key) ?? null;
+      if (match && !canEdit) {
+        errors.push(`nombre: ${this.t('products.importDialog.errors.noEditPermission')}`);
+      }
+
+      return {
+        // Row 1 of the sheet holds the headers
+        rowNumber: index + 2,
+        request,
+        estado,
+        action: match ? 'update' : 'create',
+        existing: match,
+        errors,
+        status: 'pending'
+      };
+    });
+  }
+
+  startImport() {
+    const rows = this.validRows;
+    if (!rows.length) {
+      return;
+    }
+
+    this.step = 'upload';
+    this.processed = 0;
+    this.uploadTotal = rows.length;
+
+    this.uploadSubscription = from(rows).pipe(
+      bufferCount(UPLOAD_BATCH_SIZE),
+      concatMap(batch => forkJoin(batch.map(row => this.saveRow(row)))),
+      finalize(() => this.finishImport())
+    ).subscribe();
+  }
+
+  // Each row reports its own outcome so one failure does not abort the batch
+  private saveRow(row: ImportRow): Observable<void> {
+    // The backend reactivates products updated without estado and creates them
+    // active, so new rows marked Inactivo are deactivated right after creation
+    const request$ = row.existing
+      ? this.apiService.updateProduct(row.existing.id, { ...row.request, estado: row.estado ?? row.existing.estado })
+      : this.apiService.createProduct(row.request).pipe(
+        switchMap(created => row.estado === false
+          ? this.apiService.updateProduct(created.id, { ...row.request, fechaActualizacion: productVersion(created), estado: false })
+          : of(created))
+      );
+
+    return request$.pipe(
+      map(() => {
+        row.status = 'saved';
+      }),
+      catchError(error => {
+        row.status = 'failed';
+        row.errors = error.errors?.length ? error.errors : [error.message || this.t('products.bulk.saveError')];
+        return of(undefined);
+      }),
+      finalize(() => this.processed++)
+    );
+  }
+
+  private finishImport() {
+    this.uploadSubscription = null;
+    this.step = 'done';
+
+    const failed = this.failedCount;
+    this.messageService.add({
+      severity: failed ? 'warn' : 'success',
+      summary: this.t('products.importDialog.messages.finishedSummary'),
+      detail: this.t(failed ? 'products.importDialog.messages.finishedWithErrors' : 'products.importDialog.messages.finishedDetail', {
+        saved: this.savedCount,
+        failed
+      })
+    });
+
+    if (this.savedCount) {
+      this.imported.emit();
+    }
+  }
+
+  async downloadErrorReport() {
+    const rows = this.rows
+      .filter(row => row.errors.length)
+      .map(row => ({
+        [this.t('products.importDialog.columns.row')]: row.rowNumber,
+        [this.t('products.importDialog.columns.name')]: row.request.nombre,
+        [this.t('products.importDialog.columns.action')]: this.t(`products.importDialog.actions.${row.action}`),
+        [this.t('products.importDialog.columns.errors')]: row.errors.join('; ')
+      }));
+
+    const baseName = this.fileName.replace(/\.[^.]+$/, '');
+    await this.spreadsheetService.exportRows(rows, 'csv', `${baseName}-${this.t('products.importDialog.errorReportSuffix')}`);
+  }
+
+  private t(key: string, params?: TranslationParams): string {
+    return this.languageService.translate(key, params);
+  }
+}
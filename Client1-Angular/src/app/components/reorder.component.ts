@@ -0,0 +1,159 @@
+import { Component, OnInit } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { from, of } from 'rxjs';
+import { catchError, concatMap, finalize, map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { toProduct, toProductForm, toUpdateProductRequest } from '../models/product.mapper';
+import { ReorderGroup, ReorderSuggestion, groupByCategory, maxReorderQuantity, suggestReorderQuantity } from '../models/reorder.model';
+import { classifyStock } from '../models/stock-alert.model';
+import { ApiService } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+import { StockAlertService } from '../services/stock-alert.service';
+
+@Component({
+  selector: 'app-reorder',
+  templateUrl: './reorder.component.html',
+  styleUrls: ['./reorder.component.scss']
+})
+export class ReorderComponent implements OnInit {
+  readonly autoReorderEnabled = environment.autoReorderEnabled;
+
+  suggestions: ReorderSuggestion[] = [];
+  groups: ReorderGroup[] = [];
+
+  // UI State
+  isLoading: boolean = false;
+  isApplying: boolean = false;
+  processedCount: number = 0;
+  totalToProcess: number = 0;
+
+  constructor(
+    private apiService: ApiService,
+    private stockAlertService: StockAlertService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {}
+
+  ngOnInit() {
+    this.loadSuggestions();
+  }
+
+  get selectedSuggestions(): ReorderSuggestion[] {
+    return this.suggestions.filter(s => s.selected && s.status !== 'done' && s.quantity > 0);
+  }
+
+  get progress(): number {
+    return this.totalToProcess ? Math.round((this.processedCount / this.totalToProcess) * 100) : 0;
+  }
+
+  loadSuggestions() {
+    this.isLoading = true;
+
+    this.apiService.getAllProducts(undefined, true).subscribe({
+      next: (productos) => {
+        this.suggestions = productos
+          .map(toProduct)
+          .filter(product => {
+            const level = classifyStock(product);
+            return level === 'out-of-stock' || level === 'below-minimum';
+          })
+          .map(product => {
+            const suggestedQuantity = suggestReorderQuantity(product);
+            return {
+              product,
+              suggestedQuantity,
+              quantity: suggestedQuantity,
+              selected: suggestedQuantity > 0,
+              status: 'pending' as const
+            };
+          });
+        this.groups = groupByCategory(this.suggestions, this.languageService.translate('reports.noCategory'));
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: this.languageService.translate('common.error'),
+          detail: error.message || this.languageService.translate('reorder.messages.loadError')
+        });
+        this.isLoading = false;
+      }
+    });
+  }
+
+  maxQuantity(suggestion: ReorderSuggestion): number {
+    return maxReorderQuantity(suggestion.product);
+  }
+
+  resetQuantity(suggestion: ReorderSuggestion) {
+    suggestion.quantity = suggestion.suggestedQuantity;
+  }
+
+  setGroupSelection(group: ReorderGroup, selected: boolean) {
+    group.suggestions
+      .filter(s => s.status !== 'done')
+      .forEach(s => s.selected = selected);
+  }
+
+  isGroupSelected(group: ReorderGroup): boolean {
+    return group.suggestions.every(s => s.selected || s.status === 'done');
+  }
+
+  // Applied one product at a time so each row reports its own outcome
+  approveSelected() {
+    const items = this.selectedSuggestions;
+    if (!items.length || !this.autoReorderEnabled) {
+      return;
+    }
+
+    this.isApplying = true;
+    this.processedCount = 0;
+    this.totalToProcess = items.length;
+
+    from(items).pipe(
+      concatMap(item => {
+        item.status = 'saving';
+        item.error = undefined;
+
+        const request = toUpdateProductRequest({
+          ...toProductForm(item.product),
+          stockActual: item.product.stockActual + item.quantity
+        }, item.product);
+
+        return this.apiService.updateProduct(item.product.id, request).pipe(
+          map(updated => {
+            item.product = toProduct(updated);
+            item.status = 'done' as const;
+            item.selected = false;
+          }),
+          catchError(error => {
+            item.status = 'failed';
+            item.error = error.message || this.languageService.translate('reorder.messages.updateError');
+            return of(undefined);
+          }),
+          finalize(() => this.processedCount++)
+        );
+      }),
+      finalize(() => this.onApplyFinished(items))
+    ).subscribe();
+  }
+
+  private onApplyFinished(items: ReorderSuggestion[]) {
+    this.isApplying = false;
+
+    const failed = items.filter(item => item.status === 'failed').length;
+    const succeeded = items.length - failed;
+
+    this.messageService.add({
+      severity: failed ? (succeeded ? 'warn' : 'error') : 'success',
+      summary: this.languageService.translate('reorder.messages.appliedSummary'),
+      detail: this.languageService.translate(failed ? 'reorder.messages.appliedWithErrors' : 'reorder.messages.appliedDetail', {
+        succeeded,
+        total: items.length,
+        failed
+      })
+    });
+
+    this.stockAlertService.refresh();
+  }
+}
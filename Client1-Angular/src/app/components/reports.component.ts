@@ -0,0 +1,240 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { UIChart } from 'primeng/chart';
+import { Subscription } from 'rxjs';
+import { ChartData, ChartOptions, ChartType } from 'chart.js';
+import {
+  HistogramBucket,
+  ReportTable,
+  histogram,
+  inventoryValue,
+  stockHealthDistribution,
+  topProductsByValue,
+  valueByCategory
+} from '../models/inventory-report.model';
+import { toProduct } from '../models/product.mapper';
+import { Product } from '../models/product.model';
+import { formatMoney } from '../pipes/money.pipe';
+import { ApiService } from '../services/api.service';
+import { LanguageService, TranslationParams } from '../services/language.service';
+import { ReportExportService } from '../services/report-export.service';
+
+type ReportKey = 'category' | 'health' | 'top' | 'price' | 'stock';
+
+interface ReportView {
+  key: ReportKey;
+  icon: string;
+  chartType: ChartType;
+  chartData: ChartData;
+  chartOptions: ChartOptions;
+  table: ReportTable;
+}
+
+const TOP_PRODUCTS_LIMIT = 10;
+const HISTOGRAM_BUCKETS = 6;
+
+const CHART_COLORS = ['#2196F3', '#4CAF50', '#FF9800', '#9C27B0', '#00BCD4', '#F44336', '#795548', '#607D8B'];
+
+// Same colours as the stock alert cards
+const HEALTH_COLORS = ['#4CAF50', '#FF9800', '#F44336', '#2196F3'];
+
+const MONEY_AXIS: ChartOptions = {
+  plugins: { legend: { display: false } },
+  scales: { y: { ticks: { callback: value => formatMoney(Number(value)) } } }
+};
+
+const COUNT_AXIS: ChartOptions = {
+  plugins: { legend: { display: false } },
+  scales: { y: { beginAtZero: true, ticks: { precision: 0 } } }
+};
+
+@Component({
+  selector: 'app-reports',
+  templateUrl: './reports.component.html',
+  styleUrls: ['./reports.component.scss']
+})
+export class ReportsComponent implements OnInit, OnDestroy {
+  products: Product[] = [];
+  reports: ReportView[] = [];
+  isLoading: boolean = false;
+  exporting: string | null = null;
+
+  private loadSubscription: Subscription | null = null;
+
+  constructor(
+    private apiService: ApiService,
+    private reportExportService: ReportExportService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {}
+
+  ngOnInit() {
+    this.loadData();
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+  }
+
+  get totalValue(): number {
+    return this.products.reduce((total, product) => total + inventoryValue(product), 0);
+  }
+
+  get totalUnits(): number {
+    return this.products.reduce((total, product) => total + product.stockActual, 0);
+  }
+
+  get categoryCount(): number {
+    return new Set(this.products.map(product => product.categoria)).size;
+  }
+
+  loadData() {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = true;
+
+    // Reports cover the active catalog only
+    this.loadSubscription = this.apiService.getAllProducts(undefined, true).subscribe({
+      next: (productos) => {
+        this.products = productos.map(toProduct);
+        this.reports = this.buildReports(this.products);
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.isLoading = false;
+        this.messageService.add({
+          severity: 'error',
+          summary: this.t('common.error'),
+          detail: error.message || this.t('reports.loadError')
+        });
+      }
+    });
+  }
+
+  async exportCsv(report: ReportView) {
+    await this.runExport(`${report.key}-csv`, () =>
+      this.reportExportService.exportCsv(report.table, this.fileName(report)));
+  }
+
+  async exportPdf(report: ReportView, chart: UIChart) {
+    await this.runExport(`${report.key}-pdf`, () =>
+      this.reportExportService.exportPdf(report.table, this.fileName(report), chart.getBase64Image()));
+  }
+
+  private async runExport(key: string, action: () => Promise<void>) {
+    this.exporting = key;
+    try {
+      await action();
+    } catch (error) {
+      this.messageService.add({
+        severity: 'error',
+        summary: this.t('common.error'),
+        detail: (error as Error).message || this.t('reports.exportError')
+      });
+    }
+    this.exporting = null;
+  }
+
+  private fileName(report: ReportView): string {
+    return `reporte-${report.key}-${new Date().toISOString().slice(0, 10)}`;
+  }
+
+  private buildReports(products: Product[]): ReportView[] {
+    const categories = valueByCategory(products, this.t('reports.noCategory'));
+    const health = stockHealthDistribution(products);
+    const top = topProductsByValue(products, TOP_PRODUCTS_LIMIT);
+    const prices = histogram(products.map(p => p.precio), HISTOGRAM_BUCKETS);
+    const stocks = histogram(products.map(p => p.stockActual), HISTOGRAM_BUCKETS);
+
+    return [
+      {
+        key: 'category',
+        icon: 'pi pi-th-large',
+        chartType: 'bar',
+        chartData: {
+          labels: categories.map(c => c.categoria),
+          datasets: [{ label: this.t('reports.columns.value'), data: categories.map(c => c.valor), backgroundColor: CHART_COLORS }]
+        },
+        chartOptions: MONEY_AXIS,
+        table: {
+          title: this.t('reports.titles.category'),
+          columns: this.columns('category', 'products', 'units', 'value'),
+          rows: categories.map(c => [c.categoria, c.productos, c.unidades, formatMoney(c.valor)])
+        }
+      },
+      {
+        key: 'health',
+        icon: 'pi pi-heart',
+        chartType: 'doughnut',
+        chartData: {
+          labels: health.map(h => this.t(h.label)),
+          datasets: [{ data: health.map(h => h.count), backgroundColor: HEALTH_COLORS }]
+        },
+        chartOptions: { plugins: { legend: { position: 'bottom' } } },
+        table: {
+          title: this.t('reports.titles.health'),
+          columns: this.columns('status', 'products', 'percentage'),
+          rows: health.map(h => [this.t(h.label), h.count, this.percent(h.count, products.length)])
+        }
+      },
+      {
+        key: 'top',
+        icon: 'pi pi-star',
+        chartType: 'bar',
+        chartData: {
+          labels: top.map(p => p.nombre),
+          datasets: [{ label: this.t('reports.columns.value'), data: top.map(inventoryValue), backgroundColor: CHART_COLORS[0] }]
+        },
+        chartOptions: {
+          indexAxis: 'y',
+          plugins: { legend: { display: false } },
+          scales: { x: { ticks: { callback: value => formatMoney(Number(value)) } } }
+        },
+        table: {
+          title: this.t('reports.titles.top', { count: TOP_PRODUCTS_LIMIT }),
+          columns: this.columns('product', 'category', 'stock', 'price', 'value'),
+          rows: top.map(p => [p.nombre, p.categoria, p.stockActual, formatMoney(p.precio), formatMoney(inventoryValue(p))])
+        }
+      },
+      this.histogramReport('price', this.t('reports.titles.price'), 'pi pi-dollar', prices, formatMoney),
+      this.histogramReport('stock', this.t('reports.titles.stock'), 'pi pi-box', stocks, value => String(Math.round(value)))
+    ];
+  }
+
+  private histogramReport(
+    key: ReportKey,
+    title: string,
+    icon: string,
+    buckets: HistogramBucket[],
+    format: (value: number) => string
+  ): ReportView {
+    const labels = buckets.map(b => `${format(b.from)} – ${format(b.to)}`);
+
+    return {
+      key,
+      icon,
+      chartType: 'bar',
+      chartData: {
+        labels,
+        datasets: [{ label: this.t('reports.columns.products'), data: buckets.map(b => b.count), backgroundColor: CHART_COLORS[1] }]
+      },
+      chartOptions: COUNT_AXIS,
+      table: {
+        title,
+        columns: this.columns('range', 'products'),
+        rows: buckets.map((b, i) => [labels[i], b.count])
+      }
+    };
+  }
+
+  private percent(count: number, total: number): string {
+    return total ? `${(count / total * 100).toFixed(1)}%` : '0%';
+  }
+
+  private columns(...keys: string[]): string[] {
+    return keys.map(key => this.t(`reports.columns.${key}`));
+  }
+
+  private t(key: string, params?: TranslationParams): string {
+    return this.languageService.translate(key, params);
+  }
+}
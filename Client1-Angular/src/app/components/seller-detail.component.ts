@@ -0,0 +1,195 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import { MessageService } from 'primeng/api';
+import { Subscription } from 'rxjs';
+import { SELLER_STATUS_LABELS, SellerStatus, authorizationTimeline, sellerStatus } from '../models/seller.model';
+import { ApiError, ApiService, HistorialAutorizacion, Vendedor } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+
+/**
+ * Seller page: current authorization, the history of grants and revocations,
+ * and the revoke / re-authorize action, which requires an HR employee and a
+ * reason that end up in the history.
+ */
+@Component({
+  selector: 'app-seller-detail',
+  templateUrl: './seller-detail.component.html',
+  styleUrls: ['./seller-detail.component.scss']
+})
+export class SellerDetailComponent implements OnInit, OnDestroy {
+  vendedor: Vendedor | null = null;
+  status: SellerStatus | null = null;
+  history: HistorialAutorizacion[] = [];
+  hrEmployeeNames = new Map<string, string>();
+
+  isLoading: boolean = false;
+  isLoadingHistory: boolean = false;
+  isSubmitting: boolean = false;
+  notFound: boolean = false;
+  historyError: string | null = null;
+  showStatusDialog: boolean = false;
+
+  statusForm: FormGroup;
+
+  readonly statusLabels = SELLER_STATUS_LABELS;
+
+  private subscriptions = new Subscription();
+  private loadSubscription: Subscription | null = null;
+  private historySubscription: Subscription | null = null;
+
+  constructor(
+    private apiService: ApiService,
+    private messageService: MessageService,
+    private languageService: LanguageService,
+    private route: ActivatedRoute,
+    private fb: FormBuilder
+  ) {
+    this.statusForm = this.fb.group({
+      empleadoRH: ['', Validators.required],
+      motivo: ['', [Validators.required, Validators.maxLength(200)]]
+    });
+  }
+
+  ngOnInit() {
+    this.subscriptions.add(
+      this.route.paramMap.subscribe(params => this.load(params.get('codigo') ?? ''))
+    );
+    // Names are only a nicety; without them the history shows employee IDs
+    this.subscriptions.add(
+      this.apiService.getHREmployees().subscribe({
+        next: (employees) => {
+          this.hrEmployeeNames = new Map(employees.map(employee => [employee.id, employee.nombre]));
+        },
+        error: () => {
+          this.hrEmployeeNames = new Map();
+        }
+      })
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+    this.loadSubscription?.unsubscribe();
+    this.historySubscription?.unsubscribe();
+  }
+
+  get isAuthorized(): boolean {
+    return this.status === 'authorized';
+  }
+
+  load(codigo: string) {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.notFound = false;
+
+    this.loadSubscription = this.apiService.getVendedorByCode(codigo).subscribe({
+      next: (vendedor) => {
+        this.setVendedor(vendedor);
+        this.isLoading = false;
+        this.loadHistory();
+      },
+      error: (error) => {
+        this.vendedor = null;
+        this.status = null;
+        this.notFound = error instanceof ApiError && error.status === 404;
+        this.isLoading = false;
+      }
+    });
+  }
+
+  loadHistory() {
+    const vendedor = this.vendedor;
+    if (!vendedor) {
+      return;
+    }
+
+    this.historySubscription?.unsubscribe();
+    this.isLoadingHistory = true;
+    this.historyError = null;
+
+    this.historySubscription = this.apiService.getAuthorizationHistory(vendedor.codigoVendedor).subscribe({
+      next: (historial) => {
+        this.history = authorizationTimeline(vendedor, historial, this.languageService.translate('sellers.detail.legacyEntry'));
+        this.isLoadingHistory = false;
+      },
+      error: (error) => {
+        this.history = [];
+        this.historyError = error.message || this.languageService.translate('sellers.messages.historyError');
+        this.isLoadingHistory = false;
+      }
+    });
+  }
+
+  employeeName(id: string): string {
+    if (!id) {
+      return '—';
+    }
+    const nombre = this.hrEmployeeNames.get(id);
+    return nombre ? `${nombre} (${id})` : id;
+  }
+
+  openStatusDialog() {
+    this.statusForm.reset({ empleadoRH: '', motivo: '' });
+    this.showStatusDialog = true;
+  }
+
+  isInvalid(controlName: string): boolean {
+    const control = this.statusForm.get(controlName);
+    return !!control && control.invalid && (control.dirty || control.touched);
+  }
+
+  changeStatus() {
+    if (!this.vendedor) {
+      return;
+    }
+
+    if (this.statusForm.invalid) {
+      this.statusForm.markAllAsTouched();
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.languageService.translate('common.requiredSummary'),
+        detail: this.languageService.translate('common.fixFieldsDetail')
+      });
+      return;
+    }
+
+    const autorizado = !this.isAuthorized;
+    const formValue = this.statusForm.value;
+    this.isSubmitting = true;
+
+    this.apiService.updateAuthorizationStatus(this.vendedor.codigoVendedor, {
+      autorizado,
+      empleadoRH: formValue.empleadoRH.trim(),
+      motivo: formValue.motivo.trim()
+    }).subscribe({
+      next: (vendedor) => {
+        this.messageService.add({
+          severity: 'success',
+          summary: this.languageService.translate(autorizado ? 'sellers.messages.authorizedSummary' : 'sellers.messages.revokedSummary'),
+          detail: this.languageService.translate(
+            autorizado ? 'sellers.messages.reauthorizedDetail' : 'sellers.messages.revokedDetail',
+            { nombre: vendedor.nombre }
+          )
+        });
+        this.setVendedor(vendedor);
+        this.isSubmitting = false;
+        this.showStatusDialog = false;
+        this.loadHistory();
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: this.languageService.translate('common.error'),
+          detail: error.message || this.languageService.translate('sellers.messages.updateError')
+        });
+        this.isSubmitting = false;
+      }
+    });
+  }
+
+  private setVendedor(vendedor: Vendedor) {
+    this.vendedor = vendedor;
+    this.status = sellerStatus(vendedor);
+  }
+}
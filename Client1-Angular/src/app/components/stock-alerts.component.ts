@@ -0,0 +1,74 @@
+import { Component } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, combineLatest, BehaviorSubject } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Product } from '../models/product.model';
+import { STOCK_ALERT_LABELS, STOCK_ALERT_PRIORITY, StockAlert, StockAlertLevel } from '../models/stock-alert.model';
+import { StockAlertService } from '../services/stock-alert.service';
+
+interface AlertSummary {
+  level: StockAlertLevel;
+  // Translation key
+  label: string;
+  count: number;
+}
+
+@Component({
+  selector: 'app-stock-alerts',
+  templateUrl: './stock-alerts.component.html',
+  styleUrls: ['./stock-alerts.component.scss']
+})
+export class StockAlertsComponent {
+  readonly labels: Record<string, string> = STOCK_ALERT_LABELS;
+
+  private readonly levelFilter$ = new BehaviorSubject<StockAlertLevel | null>(null);
+
+  readonly loading$ = this.stockAlertService.loading$;
+
+  readonly summaries$: Observable<AlertSummary[]> = this.stockAlertService.alerts$.pipe(
+    map(alerts => STOCK_ALERT_PRIORITY.map(level => ({
+      level,
+      label: STOCK_ALERT_LABELS[level],
+      count: alerts.filter(alert => alert.level === level).length
+    })))
+  );
+
+  readonly visibleAlerts$: Observable<StockAlert[]> = combineLatest([
+    this.stockAlertService.alerts$,
+    this.levelFilter$
+  ]).pipe(
+    map(([alerts, level]) => level ? alerts.filter(alert => alert.level === level) : alerts)
+  );
+
+  constructor(
+    private stockAlertService: StockAlertService,
+    private router: Router
+  ) {}
+
+  get selectedLevel(): StockAlertLevel | null {
+    return this.levelFilter$.value;
+  }
+
+  toggleLevel(level: StockAlertLevel) {
+    this.levelFilter$.next(this.selectedLevel === level ? null : level);
+  }
+
+  refresh() {
+    this.stockAlertService.refresh();
+  }
+
+  viewProduct(product: Product) {
+    this.router.navigate(['/products'], { queryParams: { q: product.nombre, estado: 'todos' } });
+  }
+
+  severity(level: StockAlertLevel): 'danger' | 'warning' | 'info' {
+    switch (level) {
+      case 'out-of-stock':
+        return 'danger';
+      case 'below-minimum':
+        return 'warning';
+      default:
+        return 'info';
+    }
+  }
+}
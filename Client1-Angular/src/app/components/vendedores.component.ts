@@ -0,0 +1,241 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MessageService } from 'primeng/api';
+import { Subscription, forkJoin } from 'rxjs';
+import { environment } from '../../environments/environment';
+import {
+  SELLER_STATUS_LABELS,
+  SellerStatus,
+  TerritorySummary,
+  sellerStatus,
+  sortByTerritory,
+  summarizeTerritories,
+  territoryOf
+} from '../models/seller.model';
+import { ApiService, AuthorizationRequest, ValidationResponse, Vendedor } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+
+@Component({
+  selector: 'app-vendedores',
+  templateUrl: './vendedores.component.html',
+  styleUrls: ['./vendedores.component.scss']
+})
+export class VendedoresComponent implements OnInit, OnDestroy {
+  // Data
+  allVendedores: Vendedor[] = [];
+  authorizedVendedores: Vendedor[] = [];
+  // allVendedores narrowed by statusFilter, in territory order
+  vendedores: Vendedor[] = [];
+  territorySummaries: TerritorySummary[] = [];
+  // HR employee names by ID, for the "authorized by" column
+  hrEmployeeNames = new Map<string, string>();
+  readonly pageSize = environment.defaultSellersPageSize;
+
+  // Filters
+  statusFilter: SellerStatus | null = 'authorized';
+  readonly statusOptions: { label: string; value: SellerStatus | null }[];
+
+  // UI State
+  isLoading: boolean = false;
+  isSubmitting: boolean = false;
+  showAuthorizeDialog: boolean = false;
+
+  // Lookup panel
+  lookupCode: string = '';
+  isValidating: boolean = false;
+  validationResult: ValidationResponse | null = null;
+
+  authorizeForm: FormGroup;
+
+  private loadSubscription: Subscription | null = null;
+  private hrSubscription: Subscription | null = null;
+  private lookupSubscription: Subscription | null = null;
+  private readonly noTerritory: string;
+
+  constructor(
+    private apiService: ApiService,
+    private messageService: MessageService,
+    private languageService: LanguageService,
+    private fb: FormBuilder
+  ) {
+    this.statusOptions = [
+      { label: languageService.translate('sellers.allStatuses'), value: null },
+      ...(Object.keys(SELLER_STATUS_LABELS) as SellerStatus[])
+        .map(status => ({ label: languageService.translate(SELLER_STATUS_LABELS[status]), value: status }))
+    ];
+    this.noTerritory = languageService.translate('sellers.noTerritory');
+    this.authorizeForm = this.fb.group({
+      codigoVendedor: ['', [Validators.required, Validators.maxLength(20), Validators.pattern(/^[A-Za-z0-9-]+$/)]],
+      nombre: ['', [Validators.required, Validators.maxLength(100)]],
+      empleadoRH: ['', Validators.required],
+      territorio: ['', [Validators.required, Validators.maxLength(50)]],
+      comision: [5, [Validators.required, Validators.min(0), Validators.max(100)]]
+    });
+  }
+
+  ngOnInit() {
+    this.loadVendedores();
+    this.loadHREmployeeNames();
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+    this.hrSubscription?.unsubscribe();
+    this.lookupSubscription?.unsubscribe();
+  }
+
+  loadVendedores() {
+    this.loadSubscription?.unsubscribe();
+    this.isLoading = true;
+
+    // The backend lists authorized and not authorized sellers separately
+    this.loadSubscription = forkJoin([
+      this.apiService.getAuthorizedVendedores(),
+      this.apiService.getPendingSellers()
+    ]).subscribe({
+      next: ([authorized, notAuthorized]) => {
+        this.authorizedVendedores = authorized;
+        this.allVendedores = sortByTerritory([...authorized, ...notAuthorized], this.noTerritory);
+        this.territorySummaries = summarizeTerritories(authorized, this.noTerritory);
+        this.applyStatusFilter();
+        this.isLoading = false;
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: this.languageService.translate('common.error'),
+          detail: error.message || this.languageService.translate('sellers.messages.loadError')
+        });
+        this.isLoading = false;
+      }
+    });
+  }
+
+  // Names are only a nicety; without them the table falls back to the employee ID
+  loadHREmployeeNames() {
+    this.hrSubscription?.unsubscribe();
+    this.hrSubscription = this.apiService.getHREmployees().subscribe({
+      next: (employees) => {
+        this.hrEmployeeNames = new Map(employees.map(employee => [employee.id, employee.nombre]));
+      },
+      error: () => {
+        this.hrEmployeeNames = new Map();
+      }
+    });
+  }
+
+  applyStatusFilter() {
+    this.vendedores = this.statusFilter
+      ? this.allVendedores.filter(vendedor => sellerStatus(vendedor) === this.statusFilter)
+      : this.allVendedores;
+  }
+
+  territoryOf(vendedor: Vendedor): string {
+    return territoryOf(vendedor, this.noTerritory);
+  }
+
+  // Sellers of the vendedor's territory among those listed
+  sellerCountOf(vendedor: Vendedor): number {
+    const territorio = territoryOf(vendedor, this.noTerritory);
+    return this.vendedores.filter(item => territoryOf(item, this.noTerritory) === territorio).length;
+  }
+
+  statusOf(vendedor: Vendedor): SellerStatus {
+    return sellerStatus(vendedor);
+  }
+
+  statusLabelOf(vendedor: Vendedor): string {
+    return this.languageService.translate(SELLER_STATUS_LABELS[sellerStatus(vendedor)]);
+  }
+
+  authorizedBy(vendedor: Vendedor): string {
+    const id = vendedor.empleadoRHAutorizo;
+    if (!id) {
+      return '—';
+    }
+    const nombre = this.hrEmployeeNames.get(id);
+    return nombre ? `${nombre} (${id})` : id;
+  }
+
+  openAuthorizeDialog() {
+    this.authorizeForm.reset({ comision: 5 });
+    this.showAuthorizeDialog = true;
+  }
+
+  isInvalid(controlName: string): boolean {
+    const control = this.authorizeForm.get(controlName);
+    return !!control && control.invalid && (control.dirty || control.touched);
+  }
+
+  authorize() {
+    if (this.authorizeForm.invalid) {
+      this.authorizeForm.markAllAsTouched();
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.languageService.translate('common.requiredSummary'),
+        detail: this.languageService.translate('common.fixFieldsDetail')
+      });
+      return;
+    }
+
+    const formValue = this.authorizeForm.value;
+    const request: AuthorizationRequest = {
+      codigoVendedor: formValue.codigoVendedor.trim(),
+      empleadoRH: formValue.empleadoRH.trim(),
+      nombre: formValue.nombre.trim(),
+      territorio: formValue.territorio.trim(),
+      comision: formValue.comision
+    };
+
+    this.isSubmitting = true;
+
+    this.apiService.authorizeVendedor(request).subscribe({
+      next: (vendedor) => {
+        this.messageService.add({
+          severity: 'success',
+          summary: this.languageService.translate('sellers.messages.authorizedSummary'),
+          detail: this.languageService.translate('sellers.messages.authorizedDetail', { nombre: vendedor.nombre })
+        });
+        this.isSubmitting = false;
+        this.showAuthorizeDialog = false;
+        this.loadVendedores();
+      },
+      error: (error) => {
+        this.messageService.add({
+          severity: 'error',
+          summary: this.languageService.translate('common.error'),
+          detail: error.message || this.languageService.translate('sellers.messages.authorizeError')
+        });
+        this.isSubmitting = false;
+      }
+    });
+  }
+
+  validateVendedor() {
+    const codigo = this.lookupCode.trim();
+    if (!codigo) {
+      return;
+    }
+
+    // A new lookup supersedes one still waiting for the server
+    this.lookupSubscription?.unsubscribe();
+    this.isValidating = true;
+    this.validationResult = null;
+
+    this.lookupSubscription = this.apiService.validateAuthorization(codigo).subscribe({
+      next: (result) => {
+        this.validationResult = result;
+        this.isValidating = false;
+      },
+      error: (error) => {
+        // The backend answers 404 for unknown codes, surface it in the panel
+        this.validationResult = {
+          isValid: false,
+          reason: error.message || this.languageService.translate('sellers.lookup.notFound'),
+          vendedor: null
+        };
+        this.isValidating = false;
+      }
+    });
+  }
+}
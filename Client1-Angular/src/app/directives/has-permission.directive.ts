@@ -0,0 +1,41 @@
+import { Directive, Input, OnDestroy, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { Permission, PermissionService } from '../services/permission.service';
+
+/**
+ * Renders its content only when the current user holds the permission:
+ * `<button *hasPermission="'products.delete'">`
+ */
+@Directive({
+  selector: '[hasPermission]'
+})
+export class HasPermissionDirective implements OnDestroy {
+  private subscription: Subscription | null = null;
+  private hasView = false;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private permissionService: PermissionService
+  ) {}
+
+  @Input() set hasPermission(permission: Permission) {
+    this.subscription?.unsubscribe();
+    this.subscription = this.permissionService.can$(permission)
+      .subscribe(allowed => this.updateView(allowed));
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  private updateView(allowed: boolean) {
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { MessageService } from 'primeng/api';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { LanguageService } from '../services/language.service';
+import { Permission, PermissionService } from '../services/permission.service';
+
+/**
+ * Requires a valid session and, when the route declares `data: { permission }`,
+ * a role holding that permission.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    private languageService: LanguageService,
+    private messageService: MessageService,
+    private router: Router
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+    return this.authService.validateSession().pipe(
+      map(isValid => {
+        if (!isValid) {
+          return this.router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+        }
+
+        const permission = route.data['permission'] as Permission | undefined;
+        if (permission && !this.permissionService.can(permission)) {
+          this.messageService.add({
+            severity: 'warn',
+            summary: this.languageService.translate('session.accessDeniedSummary'),
+            detail: this.languageService.translate('session.accessDeniedDetail')
+          });
+          return this.router.createUrlTree(['/products']);
+        }
+
+        return true;
+      })
+    );
+  }
+}
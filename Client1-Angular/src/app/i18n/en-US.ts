@@ -0,0 +1,654 @@
+import { Translations } from './es-CO';
+
+// English (United States) texts
+export const EN_US: Translations = {
+  common: {
+    error: 'Error',
+    cancel: 'Cancel',
+    requiredSummary: 'Required Fields',
+    fixFieldsDetail: 'Please correct the highlighted fields',
+    language: 'Language',
+    connectionError: 'Could not connect to the server',
+    timeoutError: 'The server took too long to respond'
+  },
+  app: {
+    title: 'PoliMarket - Product Management',
+    subtitle: 'Product Management System',
+    offline: 'Offline',
+    pendingChanges: '{count} pending',
+    stockAlerts: 'Stock alerts',
+    logout: 'Log Out'
+  },
+  nav: {
+    products: 'Products',
+    reorder: 'Reorder',
+    reports: 'Reports',
+    sellers: 'Sellers',
+    hrEmployees: 'HR Employees',
+    diagnostics: 'Diagnostics'
+  },
+  roles: {
+    Admin: 'Administrator',
+    HRManager: 'HR Manager',
+    SalesRep: 'Sales Representative',
+    InventoryManager: 'Inventory Manager',
+    DeliveryManager: 'Delivery Manager',
+    unknown: 'User'
+  },
+  session: {
+    idleTitle: 'Inactive Session',
+    idleCountdownStart: 'Your session will close due to inactivity in',
+    idleCountdownEnd: 'seconds.',
+    stayLoggedIn: 'Stay Logged In',
+    closedSummary: 'Session Closed',
+    expiredSummary: 'Session Expired',
+    logoutDetail: 'You have logged out successfully',
+    expiredDetail: 'Your session has expired. Please log in again',
+    idleDetail: 'Your session was closed due to inactivity',
+    unauthorizedDetail: 'Your session has expired or is no longer valid. Please log in again',
+    remoteDetail: 'The session was closed from another tab',
+    accessDeniedSummary: 'Access Denied',
+    accessDeniedDetail: 'You do not have permission to access this section'
+  },
+  login: {
+    title: 'Log In',
+    subtitle: 'Product Management System',
+    username: 'Username',
+    usernamePlaceholder: 'Enter your username',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    submit: 'Log In',
+    requiredDetail: 'Please enter your username and password',
+    successSummary: 'Login Successful',
+    welcome: 'Welcome {nombre}',
+    errorSummary: 'Authentication Error',
+    errorDetail: 'Incorrect username or password'
+  },
+  products: {
+    title: 'Product Management',
+    subtitle: 'Product Administration System',
+    actions: 'Actions',
+    newProduct: 'New Product',
+    import: 'Import',
+    exportCsv: 'Export CSV',
+    exportExcel: 'Export Excel',
+    catalog: 'Product Catalog',
+    searchPlaceholder: 'Search by name or description',
+    categoryPlaceholder: 'Category',
+    allCategories: 'All categories',
+    statusActive: 'Active',
+    statusInactive: 'Inactive',
+    statusAll: 'All',
+    clearFilters: 'Clear',
+    pricesWithTax: 'Prices incl. VAT',
+    pageReport: 'Showing {first} to {last} of {totalRecords} products',
+    empty: 'No products match the current filters',
+    columns: {
+      code: 'Code',
+      name: 'Name',
+      category: 'Category',
+      stock: 'Stock',
+      price: 'Price',
+      withTax: '(incl. VAT)',
+      withoutTax: '(excl. VAT)',
+      status: 'Status',
+      actions: 'Actions'
+    },
+    active: 'Active',
+    inactive: 'Inactive',
+    form: {
+      newTitle: 'New Product',
+      editTitle: 'Edit Product',
+      name: 'Product Name',
+      namePlaceholder: 'Enter the product name',
+      category: 'Category',
+      categoryPlaceholder: 'Enter a category',
+      description: 'Description',
+      descriptionPlaceholder: 'Enter a description',
+      price: 'Price (excl. VAT)',
+      stock: 'Stock',
+      minStock: 'Minimum Stock',
+      maxStock: 'Maximum Stock',
+      unit: 'Unit of Measure',
+      unitPlaceholder: 'e.g. Unit, Box, Kg',
+      create: 'Create Product',
+      update: 'Update Product'
+    },
+    fieldErrors: {
+      required: 'This field is required',
+      maxlength: 'The text is too long',
+      min: 'The value is below the allowed minimum',
+      precioMin: 'The price must be greater than zero',
+      stockRange: 'Maximum stock must be greater than or equal to minimum stock',
+      stockAboveMax: 'Stock cannot exceed the maximum stock',
+      invalid: 'Invalid value'
+    },
+    messages: {
+      loadError: 'Error loading products',
+      offlineSummary: 'Offline',
+      offlineNoCache: 'Could not reach the server and there is no saved data to show',
+      exportError: 'Error exporting products',
+      createdSummary: 'Product Created',
+      createdDetail: 'Product {nombre} created successfully',
+      createError: 'Error creating product',
+      updatedSummary: 'Product Updated',
+      updatedDetail: 'Product {nombre} updated successfully',
+      updateError: 'Error updating product',
+      conflictLoadError: 'Error loading the current version of the product',
+      discardedSummary: 'Changes Discarded',
+      discardedDetail: 'The current values of {nombre} were kept',
+      deleteConfirm: 'Are you sure you want to delete the product {nombre}?',
+      deleteHeader: 'Confirm Deletion',
+      deleteAccept: 'Yes, Delete',
+      deletedSummary: 'Product Deleted',
+      deletedDetail: 'Product {nombre} deleted successfully',
+      deleteError: 'Error deleting product'
+    },
+    live: {
+      live: 'Live',
+      polling: 'Refreshing every {seconds} s',
+      editedSummary: 'Product Changed',
+      editedUpdated: '{usuario} changed {nombre} while you were editing it. You can review the changes when you save',
+      editedDeleted: '{usuario} deleted {nombre} while you were editing it',
+      anotherUser: 'Another user'
+    },
+    simulator: {
+      title: 'Price Simulation',
+      discount: 'Discount',
+      referenceHint: 'Discount on the original price of {price}',
+      net: 'Net price',
+      discountLine: 'Discount ({percentage}%)',
+      discountedNet: 'Discounted net',
+      tax: 'VAT ({percentage}%)',
+      gross: 'Total incl. VAT',
+      noPrice: 'Enter a price to see the simulation.',
+      apply: 'Apply Discount to Price',
+      maxDiscountHint: 'Maximum discount allowed: {percentage}%',
+      negativeDiscount: 'The discount cannot be negative',
+      maxDiscountError: 'The maximum discount allowed is {percentage}%'
+    },
+    detail: {
+      title: 'Product Detail',
+      back: 'Back to catalog',
+      notFound: 'The product does not exist or was deleted',
+      loadError: 'The product could not be loaded',
+      information: 'Information',
+      grossPrice: 'Price (incl. VAT)',
+      created: 'Created',
+      updated: 'Last updated',
+      normal: 'Normal',
+      minimum: 'Minimum: {value}',
+      maximum: 'Maximum: {value}',
+      history: 'Change History',
+      allKinds: 'All changes',
+      noHistory: 'No changes recorded',
+      historyError: 'Error loading the history',
+      unknownUser: 'Unknown',
+      stockTitle: '{tipo} of {cantidad} units',
+      stockDetail: 'Stock: {change}',
+      createdDetail: '{motivo} with stock {stock}',
+      kinds: {
+        created: 'Creation',
+        stock: 'Stock',
+        price: 'Price',
+        status: 'Status'
+      }
+    },
+    conflict: {
+      title: 'Edit Conflict',
+      savedBefore: 'Another user saved',
+      savedAfter: 'on {date} while you were editing it.',
+      bothChanged: '{count} fields were changed by both.',
+      field: 'Field',
+      mine: 'Your changes',
+      theirs: 'Current values',
+      legend: 'Highlighted values are the ones that changed since the version you opened.',
+      discard: 'Discard my Changes',
+      overwrite: 'Overwrite',
+      merge: 'Save Selection',
+      fields: {
+        nombre: 'Name',
+        categoria: 'Category',
+        descripcion: 'Description',
+        precio: 'Price',
+        stockActual: 'Current stock',
+        stockMinimo: 'Minimum stock',
+        stockMaximo: 'Maximum stock',
+        unidadMedida: 'Unit of measure'
+      }
+    },
+    bulk: {
+      selected: '{count} products selected',
+      clearSelection: 'Clear Selection',
+      appliesTo: 'It will be applied to {count} products.',
+      newCategory: 'New Category',
+      categoryPlaceholder: 'Select or type a category',
+      priceAdjustment: 'Price Adjustment',
+      priceHint: 'Negative values lower the price, down to a maximum of {percentage}%.',
+      apply: 'Apply',
+      resultTitle: '{action}: Products',
+      saved: '{count} applied',
+      queued: '{count} queued offline',
+      failed: '{count} with errors',
+      processing: 'Processing {processed} of {total}...',
+      retryHint: 'Products with errors stay selected so you can retry.',
+      close: 'Close',
+      deleteConfirm: 'Are you sure you want to delete {count} products?',
+      conflictError: 'It was changed by another user; reload and try again',
+      saveError: 'Error saving product',
+      actions: {
+        activate: 'Activate',
+        deactivate: 'Deactivate',
+        category: 'Change Category',
+        price: 'Adjust Price',
+        delete: 'Delete'
+      }
+    },
+    importDialog: {
+      title: 'Import Products',
+      columnsIntro: 'Select a CSV or Excel file with the columns',
+      matchHelp: 'Products whose name already exists are updated; the rest are created.',
+      reading: 'Reading file...',
+      selectFile: 'Select file',
+      maxSize: 'Maximum size: {size} MB',
+      valid: '{count} valid',
+      invalid: '{count} with errors',
+      imported: '{count} imported',
+      saved: 'Saved',
+      ready: 'Ready',
+      downloadErrors: 'Download Errors',
+      otherFile: 'Another File',
+      submit: 'Import {count} Products',
+      errorReportSuffix: 'errors',
+      columns: {
+        row: 'Row',
+        name: 'Name',
+        category: 'Category',
+        price: 'Price',
+        stock: 'Stock',
+        action: 'Action',
+        status: 'Status',
+        errors: 'Errors'
+      },
+      actions: {
+        create: 'Create',
+        update: 'Update'
+      },
+      errors: {
+        number: 'Could not read "{value}" as a number',
+        estado: '"{value}" is not a valid status (Activo or Inactivo)',
+        duplicate: 'The product appears more than once in the file',
+        noEditPermission: 'You do not have permission to update existing products'
+      },
+      messages: {
+        unsupportedSummary: 'Unsupported File',
+        unsupportedDetail: 'Select a CSV or Excel (.xlsx) file',
+        tooLargeSummary: 'File Too Large',
+        tooLargeDetail: 'The maximum allowed size is {size} MB',
+        emptyFile: 'The file contains no product rows',
+        readErrorSummary: 'Read Error',
+        readErrorDetail: 'Could not read the file',
+        existingError: 'Error loading existing products',
+        finishedSummary: 'Import Finished',
+        finishedDetail: '{saved} products imported successfully',
+        finishedWithErrors: '{saved} products imported, {failed} with errors'
+      }
+    },
+    validation: {
+      nombreRequired: 'Name is required',
+      nombreMaxLength: 'Name cannot exceed {max} characters',
+      categoriaRequired: 'Category is required',
+      categoriaMaxLength: 'Category cannot exceed {max} characters',
+      descripcionMaxLength: 'Description cannot exceed {max} characters',
+      unidadMedidaMaxLength: 'Unit of measure cannot exceed {max} characters',
+      precioMin: 'Price must be greater than zero',
+      stockInteger: 'Stock must be a non-negative integer',
+      stockMinimoInteger: 'Minimum stock must be a non-negative integer',
+      stockMaximoMin: 'Maximum stock must be greater than zero',
+      stockRange: 'Maximum stock must be greater than or equal to minimum stock',
+      stockAboveMax: 'Stock cannot exceed maximum stock'
+    }
+  },
+  health: {
+    title: 'Server Status',
+    subtitle: 'Automatic checks every {seconds} s',
+    viewStatus: 'View server status',
+    status: {
+      online: 'Online',
+      degraded: 'Degraded',
+      offline: 'Offline',
+      unknown: 'Checking'
+    },
+    issues: {
+      noNetwork: 'Your device is not connected to the network',
+      unreachable: 'The server is not responding',
+      timeout: 'The server did not respond in time',
+      database: 'The server cannot reach its database',
+      slow: 'The server is responding slowly',
+      serverError: 'The server responded with an error'
+    },
+    cause: {
+      none: 'Everything is working normally',
+      user: 'The problem is your connection, not the server',
+      server: 'The problem is on the server; there is nothing to fix on your device'
+    },
+    current: 'Current Status',
+    checkNow: 'Check Now',
+    lastCheck: 'Last check',
+    latency: 'Latency',
+    database: 'Database',
+    databaseAvailable: 'Available',
+    databaseUnavailable: 'Unavailable',
+    availability: 'Availability',
+    averageLatency: 'Average latency',
+    checkCount: 'Checks',
+    history: 'Recent Checks',
+    columns: {
+      time: 'Time',
+      status: 'Status',
+      latency: 'Latency',
+      httpStatus: 'HTTP',
+      database: 'Database',
+      detail: 'Detail'
+    },
+    empty: 'No checks yet'
+  },
+  sellers: {
+    title: 'Seller Authorization',
+    subtitle: 'Management of authorized sellers, territories and commissions (RF1)',
+    actions: 'Actions',
+    authorize: 'Authorize Seller',
+    reload: 'Reload',
+    allStatuses: 'All statuses',
+    noTerritory: 'No territory',
+    status: {
+      authorized: 'Authorized',
+      revoked: 'Revoked',
+      pending: 'Pending'
+    },
+    lookup: {
+      title: 'Validate Seller',
+      placeholder: 'Seller code',
+      submit: 'Validate',
+      valid: 'Authorized',
+      invalid: 'Not authorized',
+      notFound: 'Seller not found'
+    },
+    territories: {
+      title: 'Summary by Territory',
+      territory: 'Territory',
+      sellerCount: 'Sellers',
+      averageCommission: 'Average commission',
+      commissionRange: 'Commission range',
+      lastAuthorization: 'Last authorization',
+      empty: 'There are no territories with authorized sellers'
+    },
+    list: {
+      title: 'Sellers',
+      pageReport: 'Showing {first} to {last} of {totalRecords} sellers',
+      territoryCount: '{count} seller(s)',
+      empty: 'There are no sellers with the selected status',
+      columns: {
+        code: 'Code',
+        name: 'Name',
+        status: 'Status',
+        commission: 'Commission',
+        date: 'Date',
+        authorizedBy: 'Authorized / revoked by'
+      }
+    },
+    form: {
+      title: 'Authorize New Seller',
+      code: 'Seller Code',
+      codePlaceholder: 'E.g. V001',
+      codeError: 'Code required (letters, numbers or hyphens, max. 20)',
+      name: 'Name',
+      namePlaceholder: 'Full name of the seller',
+      nameError: 'The name is required',
+      hrEmployee: 'Authorizing HR Employee',
+      hrEmployeeError: 'Select an active HR employee',
+      territory: 'Territory',
+      territoryPlaceholder: 'E.g. North Bogotá',
+      territoryError: 'The territory is required',
+      commission: 'Commission (%)',
+      commissionError: 'The commission must be between 0% and 100%',
+      submit: 'Authorize'
+    },
+    detail: {
+      title: 'Seller Detail',
+      back: 'Back to sellers',
+      notFound: 'The seller does not exist',
+      loadError: 'The seller could not be loaded',
+      authorization: 'Authorization',
+      revoke: 'Revoke Authorization',
+      reauthorize: 'Re-authorize',
+      authorize: 'Authorize',
+      status: 'Status',
+      code: 'Code',
+      territory: 'Territory',
+      commission: 'Commission',
+      authorizedOn: 'Authorized on',
+      lastAuthorizedOn: 'Last authorization',
+      authorizedBy: 'Authorized by',
+      revokedBy: 'Revoked by',
+      history: 'Authorization History',
+      neverAuthorized: 'The seller has never been authorized',
+      granted: 'Authorized',
+      revoked: 'Authorization revoked',
+      recordedBy: 'recorded by {usuario}',
+      legacyEntry: 'Recorded before the authorization history was kept',
+      revokeIntro: 'The seller will no longer be authorized to sell.',
+      authorizeIntro: 'The seller will be authorized to sell.',
+      historyNote: 'The change is recorded in the history.',
+      hrEmployee: 'Responsible HR Employee',
+      reason: 'Reason',
+      reasonPlaceholder: 'Reason for the authorization change',
+      reasonError: 'The reason is required (max. 200 characters)',
+      revokeSubmit: 'Revoke'
+    },
+    commission: {
+      title: 'Commission Calculator',
+      seller: 'Seller',
+      sellerPlaceholder: 'Select a seller',
+      monthlySales: 'Monthly sales',
+      salesPlaceholder: 'Sales amount',
+      sales: 'Sales for the month',
+      commission: 'Commission ({rate}%)',
+      annual: 'Annual projection (12 months)',
+      empty: 'Enter a sales amount and a commission to see the projection.'
+    },
+    messages: {
+      loadError: 'Error loading sellers',
+      authorizedSummary: 'Seller Authorized',
+      authorizedDetail: 'Seller {nombre} authorized successfully',
+      authorizeError: 'Error authorizing seller',
+      reauthorizedDetail: 'Seller {nombre} authorized again',
+      revokedSummary: 'Authorization Revoked',
+      revokedDetail: 'The authorization of {nombre} was revoked',
+      updateError: 'Error updating the authorization',
+      historyError: 'Error loading the authorization history'
+    }
+  },
+  stockAlerts: {
+    title: 'Stock Alerts',
+    subtitle: 'Products outside their inventory limits',
+    all: 'All alerts',
+    refresh: 'Refresh',
+    viewProduct: 'View product',
+    empty: 'There are no stock alerts',
+    levels: {
+      outOfStock: 'Out of stock',
+      belowMinimum: 'Below minimum',
+      overstocked: 'Overstocked'
+    },
+    columns: {
+      product: 'Product',
+      category: 'Category',
+      stock: 'Stock',
+      minimum: 'Minimum',
+      maximum: 'Maximum',
+      status: 'Status'
+    },
+    toast: {
+      outOfStock: 'Product Out of Stock',
+      belowMinimum: 'Stock Below Minimum',
+      detail: '{nombre}: {stock} units (minimum {minimo})'
+    }
+  },
+  reports: {
+    title: 'Inventory Reports',
+    subtitle: 'Current state of the active catalog (RF3)',
+    empty: 'There are no active products to report on',
+    refresh: 'Refresh',
+    noCategory: 'No category',
+    healthy: 'Healthy',
+    generatedAt: 'Generated on {date}',
+    loadError: 'Error loading report data',
+    exportError: 'Error exporting report',
+    summary: {
+      totalValue: 'Total inventory value',
+      activeProducts: 'Active products',
+      units: 'Units in stock',
+      categories: 'Categories'
+    },
+    titles: {
+      category: 'Inventory Value by Category',
+      health: 'Stock Health Distribution',
+      top: 'Top {count} Products by Value',
+      price: 'Price Distribution',
+      stock: 'Stock Distribution'
+    },
+    columns: {
+      category: 'Category',
+      products: 'Products',
+      units: 'Units',
+      value: 'Value',
+      status: 'Status',
+      percentage: 'Percentage',
+      product: 'Product',
+      stock: 'Stock',
+      price: 'Price',
+      range: 'Range'
+    }
+  },
+  reorder: {
+    title: 'Reorder Suggestions',
+    subtitle: 'Products below their minimum stock and suggested quantities to restock',
+    disabled: 'Automatic reordering is disabled in this configuration. Suggestions are for information only.',
+    approve: 'Approve selected ({count})',
+    recalculate: 'Recalculate',
+    empty: 'All products are above their minimum stock.',
+    selectAll: 'Select all',
+    resetQuantity: 'Restore suggestion',
+    applied: 'Applied',
+    columns: {
+      product: 'Product',
+      stock: 'Stock',
+      limits: 'Min / Max',
+      suggested: 'Suggested',
+      quantity: 'Quantity',
+      result: 'Result'
+    },
+    messages: {
+      loadError: 'Error calculating reorder suggestions',
+      updateError: 'Error updating the stock',
+      appliedSummary: 'Reorder Applied',
+      appliedDetail: '{succeeded} of {total} products updated',
+      appliedWithErrors: '{succeeded} of {total} products updated, {failed} with errors'
+    }
+  },
+  offline: {
+    snapshot: 'Offline — showing data saved on {date}',
+    pending: '{count} changes waiting to sync',
+    sync: 'Sync',
+    retryConnection: 'Retry Connection',
+    mutations: {
+      create: 'Create',
+      update: 'Update',
+      delete: 'Delete'
+    },
+    review: {
+      open: 'Review',
+      title: 'Unapplied Changes',
+      help: 'These changes were made offline and could not be applied. If another user changed the product, you can overwrite it with your changes or discard them.',
+      conflict: 'Changed on the server on {date} (stock {stock}, price {precio})',
+      discard: 'Discard',
+      overwrite: 'Overwrite',
+      retry: 'Retry'
+    },
+    messages: {
+      syncedSummary: 'Sync Complete',
+      syncedDetail: '{count} changes made offline were applied',
+      attentionDetail: '{count} changes need review',
+      queuedSummary: 'Saved Offline',
+      queuedDetail: 'The change to {nombre} will be applied when the connection is back',
+      discardedSummary: 'Change Discarded',
+      appliedSummary: 'Change Applied',
+      applyError: 'Error applying the change'
+    }
+  },
+  hrEmployees: {
+    title: 'HR Employee Directory',
+    subtitle: 'Employees who can authorize sellers (RF1)',
+    searchPlaceholder: 'Search by ID, name, position or email',
+    pageReport: 'Showing {first} to {last} of {totalRecords} employees',
+    empty: 'No employees match the current filters',
+    loadError: 'Error loading HR employees',
+    active: 'Active',
+    inactive: 'Inactive',
+    filters: {
+      activos: 'Active',
+      inactivos: 'Inactive',
+      todos: 'All',
+      allDepartments: 'All departments'
+    },
+    columns: {
+      id: 'ID',
+      name: 'Name',
+      position: 'Position',
+      department: 'Department',
+      contact: 'Contact',
+      status: 'Status',
+      since: 'Since'
+    },
+    picker: {
+      placeholder: 'Search HR employee by name or ID',
+      loading: 'Loading employees...',
+      empty: 'No active employees match'
+    }
+  },
+  diagnostics: {
+    subtitle: 'Latest API requests in this tab',
+    actions: 'Actions',
+    copyReport: 'Copy Report',
+    clear: 'Clear',
+    errorsOnly: 'Errors only ({count})',
+    requests: 'Requests',
+    copyEntry: 'Copy request',
+    empty: 'No requests recorded',
+    columns: {
+      time: 'Time',
+      method: 'Method',
+      path: 'Path',
+      status: 'Status',
+      duration: 'Duration',
+      correlationId: 'Correlation ID'
+    },
+    outcomes: {
+      success: 'Succeeded',
+      error: 'Error',
+      cancelled: 'Cancelled'
+    },
+    messages: {
+      copiedSummary: 'Copied',
+      reportCopied: 'Report copied to clipboard',
+      entryCopied: 'Request {id} copied',
+      clipboardError: 'Could not access the clipboard'
+    },
+    report: {
+      generatedAt: 'Generated: {date}',
+      page: 'Page: {path}',
+      browser: 'Browser: {userAgent}'
+    }
+  }
+};
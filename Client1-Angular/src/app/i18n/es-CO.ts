@@ -0,0 +1,659 @@
+// Spanish (Colombia) texts; the source of truth for the keys every language must provide.
+// Placeholders such as {nombre} are filled in by LanguageService.translate.
+export const ES_CO = {
+  common: {
+    error: 'Error',
+    cancel: 'Cancelar',
+    requiredSummary: 'Campos Requeridos',
+    fixFieldsDetail: 'Por favor corrija los campos marcados',
+    language: 'Idioma',
+    connectionError: 'No se pudo conectar con el servidor',
+    timeoutError: 'El servidor tardó demasiado en responder'
+  },
+  app: {
+    title: 'PoliMarket - Gestión de Productos',
+    subtitle: 'Sistema de Gestión de Productos',
+    offline: 'Sin conexión',
+    pendingChanges: '{count} pendientes',
+    stockAlerts: 'Alertas de stock',
+    logout: 'Cerrar Sesión'
+  },
+  nav: {
+    products: 'Productos',
+    reorder: 'Reposición',
+    reports: 'Reportes',
+    sellers: 'Vendedores',
+    hrEmployees: 'Empleados RH',
+    diagnostics: 'Diagnóstico'
+  },
+  roles: {
+    Admin: 'Administrador',
+    HRManager: 'Gerente de RH',
+    SalesRep: 'Vendedor',
+    InventoryManager: 'Gerente de Inventario',
+    DeliveryManager: 'Gerente de Entregas',
+    unknown: 'Usuario'
+  },
+  session: {
+    idleTitle: 'Sesión Inactiva',
+    idleCountdownStart: 'Su sesión se cerrará por inactividad en',
+    idleCountdownEnd: 'segundos.',
+    stayLoggedIn: 'Seguir Conectado',
+    closedSummary: 'Sesión Cerrada',
+    expiredSummary: 'Sesión Expirada',
+    logoutDetail: 'Ha cerrado sesión exitosamente',
+    expiredDetail: 'Su sesión ha expirado. Por favor inicie sesión nuevamente',
+    idleDetail: 'Su sesión se cerró por inactividad',
+    unauthorizedDetail: 'Su sesión ha expirado o no es válida. Por favor inicie sesión nuevamente',
+    remoteDetail: 'La sesión se cerró desde otra pestaña',
+    accessDeniedSummary: 'Acceso Denegado',
+    accessDeniedDetail: 'No tiene permisos para acceder a esta sección'
+  },
+  login: {
+    title: 'Iniciar Sesión',
+    subtitle: 'Sistema de Gestión de Productos',
+    username: 'Usuario',
+    usernamePlaceholder: 'Ingrese su usuario',
+    password: 'Contraseña',
+    passwordPlaceholder: 'Ingrese su contraseña',
+    submit: 'Iniciar Sesión',
+    requiredDetail: 'Por favor ingrese usuario y contraseña',
+    successSummary: 'Login Exitoso',
+    welcome: 'Bienvenido {nombre}',
+    errorSummary: 'Error de Autenticación',
+    errorDetail: 'Usuario o contraseña incorrectos'
+  },
+  products: {
+    title: 'Gestión de Productos',
+    subtitle: 'Sistema de Administración de Productos',
+    actions: 'Acciones',
+    newProduct: 'Nuevo Producto',
+    import: 'Importar',
+    exportCsv: 'Exportar CSV',
+    exportExcel: 'Exportar Excel',
+    catalog: 'Catálogo de Productos',
+    searchPlaceholder: 'Buscar por nombre o descripción',
+    categoryPlaceholder: 'Categoría',
+    allCategories: 'Todas las categorías',
+    statusActive: 'Activos',
+    statusInactive: 'Inactivos',
+    statusAll: 'Todos',
+    clearFilters: 'Limpiar',
+    pricesWithTax: 'Precios con IVA',
+    // {first}, {last} and {totalRecords} are filled in by the table paginator
+    pageReport: 'Mostrando {first} a {last} de {totalRecords} productos',
+    empty: 'No se encontraron productos con los filtros actuales',
+    columns: {
+      code: 'Código',
+      name: 'Nombre',
+      category: 'Categoría',
+      stock: 'Stock',
+      price: 'Precio',
+      withTax: '(con IVA)',
+      withoutTax: '(sin IVA)',
+      status: 'Estado',
+      actions: 'Acciones'
+    },
+    active: 'Activo',
+    inactive: 'Inactivo',
+    form: {
+      newTitle: 'Nuevo Producto',
+      editTitle: 'Editar Producto',
+      name: 'Nombre del Producto',
+      namePlaceholder: 'Ingrese nombre del producto',
+      category: 'Categoría',
+      categoryPlaceholder: 'Ingrese categoría',
+      description: 'Descripción',
+      descriptionPlaceholder: 'Ingrese descripción',
+      price: 'Precio (sin IVA)',
+      stock: 'Stock',
+      minStock: 'Stock Mínimo',
+      maxStock: 'Stock Máximo',
+      unit: 'Unidad de Medida',
+      unitPlaceholder: 'Ej: Unidad, Caja, Kg',
+      create: 'Crear Producto',
+      update: 'Actualizar Producto'
+    },
+    fieldErrors: {
+      required: 'Este campo es requerido',
+      maxlength: 'El texto es demasiado largo',
+      min: 'El valor es menor que el permitido',
+      precioMin: 'El precio debe ser mayor que cero',
+      stockRange: 'El stock máximo debe ser mayor o igual al stock mínimo',
+      stockAboveMax: 'El stock no puede superar el stock máximo',
+      invalid: 'Valor inválido'
+    },
+    messages: {
+      loadError: 'Error al cargar productos',
+      offlineSummary: 'Sin Conexión',
+      offlineNoCache: 'No se pudo conectar con el servidor y no hay datos guardados para mostrar',
+      exportError: 'Error al exportar productos',
+      createdSummary: 'Producto Creado',
+      createdDetail: 'Producto {nombre} creado exitosamente',
+      createError: 'Error al crear producto',
+      updatedSummary: 'Producto Actualizado',
+      updatedDetail: 'Producto {nombre} actualizado exitosamente',
+      updateError: 'Error al actualizar producto',
+      conflictLoadError: 'Error al cargar la versión actual del producto',
+      discardedSummary: 'Cambios Descartados',
+      discardedDetail: 'Se conservaron los valores actuales de {nombre}',
+      deleteConfirm: '¿Está seguro de que desea eliminar el producto {nombre}?',
+      deleteHeader: 'Confirmar Eliminación',
+      deleteAccept: 'Sí, Eliminar',
+      deletedSummary: 'Producto Eliminado',
+      deletedDetail: 'Producto {nombre} eliminado exitosamente',
+      deleteError: 'Error al eliminar producto'
+    },
+    live: {
+      live: 'En vivo',
+      polling: 'Actualización cada {seconds} s',
+      editedSummary: 'Producto Modificado',
+      editedUpdated: '{usuario} modificó {nombre} mientras usted lo editaba. Al guardar podrá revisar los cambios',
+      editedDeleted: '{usuario} eliminó {nombre} mientras usted lo editaba',
+      anotherUser: 'Otro usuario'
+    },
+    simulator: {
+      title: 'Simulación de Precio',
+      discount: 'Descuento',
+      referenceHint: 'Descuento sobre el precio original de {price}',
+      net: 'Precio neto',
+      discountLine: 'Descuento ({percentage}%)',
+      discountedNet: 'Neto con descuento',
+      tax: 'IVA ({percentage}%)',
+      gross: 'Total con IVA',
+      noPrice: 'Ingrese un precio para ver la simulación.',
+      apply: 'Aplicar Descuento al Precio',
+      maxDiscountHint: 'Descuento máximo permitido: {percentage}%',
+      negativeDiscount: 'El descuento no puede ser negativo',
+      maxDiscountError: 'El descuento máximo permitido es {percentage}%'
+    },
+    detail: {
+      title: 'Detalle de Producto',
+      back: 'Volver al catálogo',
+      notFound: 'El producto no existe o fue eliminado',
+      loadError: 'No se pudo cargar el producto',
+      information: 'Información',
+      grossPrice: 'Precio (con IVA)',
+      created: 'Creado',
+      updated: 'Última actualización',
+      normal: 'Normal',
+      minimum: 'Mínimo: {value}',
+      maximum: 'Máximo: {value}',
+      history: 'Historial de Cambios',
+      allKinds: 'Todos los cambios',
+      noHistory: 'No hay cambios registrados',
+      historyError: 'Error al cargar el historial',
+      unknownUser: 'Desconocido',
+      // {tipo} is the movement type sent by the server (Entrada, Salida, Ajuste)
+      stockTitle: '{tipo} de {cantidad} unidades',
+      stockDetail: 'Stock: {change}',
+      createdDetail: '{motivo} con stock {stock}',
+      kinds: {
+        created: 'Creación',
+        stock: 'Stock',
+        price: 'Precio',
+        status: 'Estado'
+      }
+    },
+    conflict: {
+      title: 'Conflicto de Edición',
+      // The product name is shown in bold between savedBefore and savedAfter
+      savedBefore: 'Otro usuario guardó',
+      savedAfter: 'el {date} mientras usted lo editaba.',
+      bothChanged: '{count} campos fueron cambiados por ambos.',
+      field: 'Campo',
+      mine: 'Sus cambios',
+      theirs: 'Valores actuales',
+      legend: 'Los valores resaltados son los que cambiaron respecto a la versión que abrió.',
+      discard: 'Descartar mis Cambios',
+      overwrite: 'Sobrescribir',
+      merge: 'Guardar Selección',
+      fields: {
+        nombre: 'Nombre',
+        categoria: 'Categoría',
+        descripcion: 'Descripción',
+        precio: 'Precio',
+        stockActual: 'Stock actual',
+        stockMinimo: 'Stock mínimo',
+        stockMaximo: 'Stock máximo',
+        unidadMedida: 'Unidad de medida'
+      }
+    },
+    bulk: {
+      selected: '{count} productos seleccionados',
+      clearSelection: 'Quitar Selección',
+      appliesTo: 'Se aplicará a {count} productos.',
+      newCategory: 'Nueva Categoría',
+      categoryPlaceholder: 'Seleccione o escriba una categoría',
+      priceAdjustment: 'Ajuste de Precio',
+      priceHint: 'Valores negativos reducen el precio, hasta un máximo de {percentage}%.',
+      apply: 'Aplicar',
+      resultTitle: '{action} Productos',
+      saved: '{count} aplicados',
+      queued: '{count} en cola sin conexión',
+      failed: '{count} con error',
+      processing: 'Procesando {processed} de {total}...',
+      retryHint: 'Los productos con error siguen seleccionados para reintentar.',
+      close: 'Cerrar',
+      deleteConfirm: '¿Está seguro de que desea eliminar {count} productos?',
+      conflictError: 'Fue modificado por otro usuario; recargue e intente de nuevo',
+      saveError: 'Error al guardar producto',
+      actions: {
+        activate: 'Activar',
+        deactivate: 'Desactivar',
+        category: 'Cambiar Categoría',
+        price: 'Ajustar Precio',
+        delete: 'Eliminar'
+      }
+    },
+    importDialog: {
+      title: 'Importar Productos',
+      columnsIntro: 'Seleccione un archivo CSV o Excel con las columnas',
+      matchHelp: 'Los productos cuyo nombre ya existe se actualizan; los demás se crean.',
+      reading: 'Leyendo archivo...',
+      selectFile: 'Seleccionar archivo',
+      maxSize: 'Tamaño máximo: {size} MB',
+      valid: '{count} válidas',
+      invalid: '{count} con errores',
+      imported: '{count} importadas',
+      saved: 'Guardado',
+      ready: 'Listo',
+      downloadErrors: 'Descargar Errores',
+      otherFile: 'Otro Archivo',
+      submit: 'Importar {count} Productos',
+      errorReportSuffix: 'errores',
+      columns: {
+        row: 'Fila',
+        name: 'Nombre',
+        category: 'Categoría',
+        price: 'Precio',
+        stock: 'Stock',
+        action: 'Acción',
+        status: 'Estado',
+        errors: 'Errores'
+      },
+      actions: {
+        create: 'Crear',
+        update: 'Actualizar'
+      },
+      errors: {
+        number: 'No se pudo interpretar "{value}" como número',
+        estado: '"{value}" no es un estado válido (Activo o Inactivo)',
+        duplicate: 'El producto está repetido en el archivo',
+        noEditPermission: 'No tiene permiso para actualizar productos existentes'
+      },
+      messages: {
+        unsupportedSummary: 'Archivo no Soportado',
+        unsupportedDetail: 'Seleccione un archivo CSV o Excel (.xlsx)',
+        tooLargeSummary: 'Archivo Demasiado Grande',
+        tooLargeDetail: 'El tamaño máximo permitido es {size} MB',
+        emptyFile: 'El archivo no contiene filas de productos',
+        readErrorSummary: 'Error de Lectura',
+        readErrorDetail: 'No se pudo leer el archivo',
+        existingError: 'Error al cargar productos existentes',
+        finishedSummary: 'Importación Finalizada',
+        finishedDetail: '{saved} productos importados exitosamente',
+        finishedWithErrors: '{saved} productos importados, {failed} con errores'
+      }
+    },
+    validation: {
+      nombreRequired: 'El nombre es requerido',
+      nombreMaxLength: 'El nombre no puede superar {max} caracteres',
+      categoriaRequired: 'La categoría es requerida',
+      categoriaMaxLength: 'La categoría no puede superar {max} caracteres',
+      descripcionMaxLength: 'La descripción no puede superar {max} caracteres',
+      unidadMedidaMaxLength: 'La unidad de medida no puede superar {max} caracteres',
+      precioMin: 'El precio debe ser mayor que cero',
+      stockInteger: 'El stock debe ser un entero no negativo',
+      stockMinimoInteger: 'El stock mínimo debe ser un entero no negativo',
+      stockMaximoMin: 'El stock máximo debe ser mayor que cero',
+      stockRange: 'El stock máximo debe ser mayor o igual al stock mínimo',
+      stockAboveMax: 'El stock no puede superar el stock máximo'
+    }
+  },
+  health: {
+    title: 'Estado del Servidor',
+    subtitle: 'Comprobaciones automáticas cada {seconds} s',
+    viewStatus: 'Ver estado del servidor',
+    status: {
+      online: 'En línea',
+      degraded: 'Degradado',
+      offline: 'Sin conexión',
+      unknown: 'Comprobando'
+    },
+    issues: {
+      noNetwork: 'Su equipo no tiene conexión a la red',
+      unreachable: 'El servidor no responde',
+      timeout: 'El servidor no respondió a tiempo',
+      database: 'El servidor no puede acceder a la base de datos',
+      slow: 'El servidor responde con lentitud',
+      serverError: 'El servidor respondió con un error'
+    },
+    cause: {
+      none: 'Todo funciona correctamente',
+      user: 'El problema está en su conexión, no en el servidor',
+      server: 'El problema está en el servidor; no necesita hacer nada en su equipo'
+    },
+    current: 'Estado Actual',
+    checkNow: 'Comprobar Ahora',
+    lastCheck: 'Última comprobación',
+    latency: 'Latencia',
+    database: 'Base de datos',
+    databaseAvailable: 'Disponible',
+    databaseUnavailable: 'No disponible',
+    availability: 'Disponibilidad',
+    averageLatency: 'Latencia promedio',
+    checkCount: 'Comprobaciones',
+    history: 'Últimas Comprobaciones',
+    columns: {
+      time: 'Hora',
+      status: 'Estado',
+      latency: 'Latencia',
+      httpStatus: 'HTTP',
+      database: 'Base de datos',
+      detail: 'Detalle'
+    },
+    empty: 'Aún no hay comprobaciones'
+  },
+  sellers: {
+    title: 'Autorización de Vendedores',
+    subtitle: 'Gestión de vendedores autorizados, territorios y comisiones (RF1)',
+    actions: 'Acciones',
+    authorize: 'Autorizar Vendedor',
+    reload: 'Recargar',
+    allStatuses: 'Todos los estados',
+    noTerritory: 'Sin territorio',
+    status: {
+      authorized: 'Autorizado',
+      revoked: 'Revocado',
+      pending: 'Pendiente'
+    },
+    lookup: {
+      title: 'Validar Vendedor',
+      placeholder: 'Código del vendedor',
+      submit: 'Validar',
+      valid: 'Autorizado',
+      invalid: 'No autorizado',
+      notFound: 'Vendedor no encontrado'
+    },
+    territories: {
+      title: 'Resumen por Territorio',
+      territory: 'Territorio',
+      sellerCount: 'Vendedores',
+      averageCommission: 'Comisión promedio',
+      commissionRange: 'Rango de comisión',
+      lastAuthorization: 'Última autorización',
+      empty: 'No hay territorios con vendedores autorizados'
+    },
+    list: {
+      title: 'Vendedores',
+      // {first}, {last} and {totalRecords} are filled in by the table paginator
+      pageReport: 'Mostrando {first} a {last} de {totalRecords} vendedores',
+      territoryCount: '{count} vendedor(es)',
+      empty: 'No hay vendedores con el estado seleccionado',
+      columns: {
+        code: 'Código',
+        name: 'Nombre',
+        status: 'Estado',
+        commission: 'Comisión',
+        date: 'Fecha',
+        authorizedBy: 'Autorizado / revocado por'
+      }
+    },
+    form: {
+      title: 'Autorizar Nuevo Vendedor',
+      code: 'Código del Vendedor',
+      codePlaceholder: 'Ej: V001',
+      codeError: 'Código requerido (letras, números o guiones, máx. 20)',
+      name: 'Nombre',
+      namePlaceholder: 'Nombre completo del vendedor',
+      nameError: 'El nombre es requerido',
+      hrEmployee: 'Empleado RH que Autoriza',
+      hrEmployeeError: 'Seleccione un empleado de RH activo',
+      territory: 'Territorio',
+      territoryPlaceholder: 'Ej: Bogotá Norte',
+      territoryError: 'El territorio es requerido',
+      commission: 'Comisión (%)',
+      commissionError: 'La comisión debe estar entre 0% y 100%',
+      submit: 'Autorizar'
+    },
+    detail: {
+      title: 'Detalle de Vendedor',
+      back: 'Volver a vendedores',
+      notFound: 'El vendedor no existe',
+      loadError: 'No se pudo cargar el vendedor',
+      authorization: 'Autorización',
+      revoke: 'Revocar Autorización',
+      reauthorize: 'Re-autorizar',
+      authorize: 'Autorizar',
+      status: 'Estado',
+      code: 'Código',
+      territory: 'Territorio',
+      commission: 'Comisión',
+      authorizedOn: 'Autorizado el',
+      lastAuthorizedOn: 'Última autorización',
+      authorizedBy: 'Autorizado por',
+      revokedBy: 'Revocado por',
+      history: 'Historial de Autorización',
+      neverAuthorized: 'El vendedor nunca ha sido autorizado',
+      granted: 'Autorizado',
+      revoked: 'Autorización revocada',
+      recordedBy: 'registrado por {usuario}',
+      legacyEntry: 'Registrado antes del historial de autorizaciones',
+      revokeIntro: 'El vendedor dejará de estar autorizado para vender.',
+      authorizeIntro: 'El vendedor quedará autorizado para vender.',
+      historyNote: 'El cambio queda registrado en el historial.',
+      hrEmployee: 'Empleado RH Responsable',
+      reason: 'Motivo',
+      reasonPlaceholder: 'Motivo del cambio de autorización',
+      reasonError: 'El motivo es requerido (máx. 200 caracteres)',
+      revokeSubmit: 'Revocar'
+    },
+    commission: {
+      title: 'Calculadora de Comisiones',
+      seller: 'Vendedor',
+      sellerPlaceholder: 'Seleccione un vendedor',
+      monthlySales: 'Ventas mensuales',
+      salesPlaceholder: 'Monto de ventas',
+      sales: 'Ventas del mes',
+      commission: 'Comisión ({rate}%)',
+      annual: 'Proyección anual (12 meses)',
+      empty: 'Ingrese un monto de ventas y una comisión para ver la proyección.'
+    },
+    messages: {
+      loadError: 'Error al cargar vendedores',
+      authorizedSummary: 'Vendedor Autorizado',
+      authorizedDetail: 'Vendedor {nombre} autorizado exitosamente',
+      authorizeError: 'Error al autorizar vendedor',
+      reauthorizedDetail: 'Vendedor {nombre} autorizado nuevamente',
+      revokedSummary: 'Autorización Revocada',
+      revokedDetail: 'Se revocó la autorización de {nombre}',
+      updateError: 'Error al actualizar la autorización',
+      historyError: 'Error al cargar el historial de autorizaciones'
+    }
+  },
+  stockAlerts: {
+    title: 'Alertas de Stock',
+    subtitle: 'Productos fuera de sus límites de inventario',
+    all: 'Todas las alertas',
+    refresh: 'Actualizar',
+    viewProduct: 'Ver producto',
+    empty: 'No hay alertas de stock',
+    levels: {
+      outOfStock: 'Agotado',
+      belowMinimum: 'Bajo mínimo',
+      overstocked: 'Sobre stock'
+    },
+    columns: {
+      product: 'Producto',
+      category: 'Categoría',
+      stock: 'Stock',
+      minimum: 'Mínimo',
+      maximum: 'Máximo',
+      status: 'Estado'
+    },
+    toast: {
+      outOfStock: 'Producto Agotado',
+      belowMinimum: 'Stock Bajo Mínimo',
+      detail: '{nombre}: {stock} unidades (mínimo {minimo})'
+    }
+  },
+  reports: {
+    title: 'Reportes de Inventario',
+    subtitle: 'Estado actual del catálogo activo (RF3)',
+    empty: 'No hay productos activos para generar reportes',
+    refresh: 'Actualizar',
+    noCategory: 'Sin categoría',
+    healthy: 'Saludable',
+    generatedAt: 'Generado el {date}',
+    loadError: 'Error al cargar datos de reportes',
+    exportError: 'Error al exportar reporte',
+    summary: {
+      totalValue: 'Valor total del inventario',
+      activeProducts: 'Productos activos',
+      units: 'Unidades en stock',
+      categories: 'Categorías'
+    },
+    titles: {
+      category: 'Valor de Inventario por Categoría',
+      health: 'Distribución de Salud de Stock',
+      top: 'Top {count} Productos por Valor',
+      price: 'Distribución de Precios',
+      stock: 'Distribución de Stock'
+    },
+    columns: {
+      category: 'Categoría',
+      products: 'Productos',
+      units: 'Unidades',
+      value: 'Valor',
+      status: 'Estado',
+      percentage: 'Porcentaje',
+      product: 'Producto',
+      stock: 'Stock',
+      price: 'Precio',
+      range: 'Rango'
+    }
+  },
+  reorder: {
+    title: 'Sugerencias de Reposición',
+    subtitle: 'Productos bajo su stock mínimo y cantidades sugeridas para reabastecer',
+    disabled: 'La reposición automática está deshabilitada en esta configuración. Las sugerencias son solo informativas.',
+    approve: 'Aprobar seleccionados ({count})',
+    recalculate: 'Recalcular',
+    empty: 'Todos los productos están por encima de su stock mínimo.',
+    selectAll: 'Seleccionar todos',
+    resetQuantity: 'Restaurar sugerencia',
+    applied: 'Aplicado',
+    columns: {
+      product: 'Producto',
+      stock: 'Stock',
+      limits: 'Mín / Máx',
+      suggested: 'Sugerido',
+      quantity: 'Cantidad',
+      result: 'Resultado'
+    },
+    messages: {
+      loadError: 'Error al calcular sugerencias de reposición',
+      updateError: 'Error al actualizar el stock',
+      appliedSummary: 'Reposición Aplicada',
+      appliedDetail: '{succeeded} de {total} productos actualizados',
+      appliedWithErrors: '{succeeded} de {total} productos actualizados, {failed} con error'
+    }
+  },
+  offline: {
+    snapshot: 'Sin conexión — mostrando datos guardados el {date}',
+    pending: '{count} cambios pendientes de sincronizar',
+    sync: 'Sincronizar',
+    retryConnection: 'Reintentar Conexión',
+    mutations: {
+      create: 'Crear',
+      update: 'Actualizar',
+      delete: 'Eliminar'
+    },
+    review: {
+      open: 'Revisar',
+      title: 'Cambios sin Aplicar',
+      help: 'Estos cambios se hicieron sin conexión y no se pudieron aplicar. Si otro usuario modificó el producto, puede sobrescribirlo con sus cambios o descartarlos.',
+      conflict: 'Modificado en el servidor el {date} (stock {stock}, precio {precio})',
+      discard: 'Descartar',
+      overwrite: 'Sobrescribir',
+      retry: 'Reintentar'
+    },
+    messages: {
+      syncedSummary: 'Sincronización Completa',
+      syncedDetail: '{count} cambios realizados sin conexión fueron aplicados',
+      attentionDetail: '{count} cambios requieren revisión',
+      queuedSummary: 'Guardado sin Conexión',
+      queuedDetail: 'El cambio en {nombre} se aplicará al recuperar la conexión',
+      discardedSummary: 'Cambio Descartado',
+      appliedSummary: 'Cambio Aplicado',
+      applyError: 'Error al aplicar el cambio'
+    }
+  },
+  hrEmployees: {
+    title: 'Directorio de Empleados RH',
+    subtitle: 'Empleados que pueden autorizar vendedores (RF1)',
+    searchPlaceholder: 'Buscar por ID, nombre, cargo o correo',
+    pageReport: 'Mostrando {first} a {last} de {totalRecords} empleados',
+    empty: 'No se encontraron empleados con los filtros actuales',
+    loadError: 'Error al cargar empleados de RH',
+    active: 'Activo',
+    inactive: 'Inactivo',
+    filters: {
+      activos: 'Activos',
+      inactivos: 'Inactivos',
+      todos: 'Todos',
+      allDepartments: 'Todos los departamentos'
+    },
+    columns: {
+      id: 'ID',
+      name: 'Nombre',
+      position: 'Cargo',
+      department: 'Departamento',
+      contact: 'Contacto',
+      status: 'Estado',
+      since: 'Desde'
+    },
+    picker: {
+      placeholder: 'Buscar empleado de RH por nombre o ID',
+      loading: 'Cargando empleados...',
+      empty: 'No hay empleados activos que coincidan'
+    }
+  },
+  diagnostics: {
+    subtitle: 'Últimas solicitudes a la API en esta pestaña',
+    actions: 'Acciones',
+    copyReport: 'Copiar Reporte',
+    clear: 'Limpiar',
+    errorsOnly: 'Solo errores ({count})',
+    requests: 'Solicitudes',
+    copyEntry: 'Copiar solicitud',
+    empty: 'No hay solicitudes registradas',
+    columns: {
+      time: 'Hora',
+      method: 'Método',
+      path: 'Ruta',
+      status: 'Estado',
+      duration: 'Duración',
+      correlationId: 'ID de Correlación'
+    },
+    outcomes: {
+      success: 'Exitosa',
+      error: 'Error',
+      cancelled: 'Cancelada'
+    },
+    messages: {
+      copiedSummary: 'Copiado',
+      reportCopied: 'Reporte copiado al portapapeles',
+      entryCopied: 'Solicitud {id} copiada',
+      clipboardError: 'No se pudo acceder al portapapeles'
+    },
+    report: {
+      generatedAt: 'Generado: {date}',
+      page: 'Página: {path}',
+      browser: 'Navegador: {userAgent}'
+    }
+  }
+};
+
+export type Translations = typeof ES_CO;
@@ -0,0 +1,20 @@
+export type Language = 'es-CO' | 'en-US';
+
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'es-CO', label: 'Español' },
+  { code: 'en-US', label: 'English' }
+];
+
+export const DEFAULT_LANGUAGE: Language = 'es-CO';
+
+export const LANGUAGE_STORAGE_KEY = 'language';
+
+/**
+ * Language chosen by the user, falling back to the default. Read once at
+ * startup: Angular's LOCALE_ID cannot change while the app runs, so switching
+ * language reloads the page.
+ */
+export function storedLanguage(): Language {
+  const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return LANGUAGES.some(language => language.code === saved) ? saved as Language : DEFAULT_LANGUAGE;
+}
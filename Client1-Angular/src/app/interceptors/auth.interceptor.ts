@@ -0,0 +1,43 @@
+import { Injectable, Injector } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { AuthService } from '../services/auth.service';
+
+@Injectable()
+export class AuthInterceptor implements HttpInterceptor {
+  constructor(private injector: Injector) {}
+
+  // Resolved lazily: AuthService depends on ApiService, which depends on HttpClient
+  private get authService(): AuthService {
+    return this.injector.get(AuthService);
+  }
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    // Only our own API receives the token
+    if (!request.url.startsWith(environment.apiBaseUrl)) {
+      return next.handle(request);
+    }
+
+    // The backend's audit records resolve the user from this token's session
+    const token = this.authService.token;
+    const authRequest = token ? request.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : request;
+
+    return next.handle(authRequest).pipe(
+      catchError((error: HttpErrorResponse) => {
+        if (error.status === 401 && !this.isAuthenticationCall(request.url)) {
+          // AppComponent reacts to the ended session with a toast and the login redirect
+          this.authService.endSession('unauthorized');
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  // Login/logout failures are reported by the calling component, token validation by the guard
+  private isAuthenticationCall(url: string): boolean {
+    return ['login', 'logout', 'validate']
+      .some(action => url.startsWith(`${environment.apiBaseUrl}/Authentication/${action}`));
+  }
+}
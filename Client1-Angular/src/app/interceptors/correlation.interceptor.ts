@@ -0,0 +1,86 @@
+import { Injectable } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, finalize, tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { ApiCallEntry, DiagnosticsService } from '../services/diagnostics.service';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+// Off for background calls (health checks) that would crowd real requests out of the log
+export const LOG_IN_DIAGNOSTICS = new HttpContextToken<boolean>(() => true);
+
+function createCorrelationId(): string {
+  // randomUUID is only available in secure contexts
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Tags every API call with an `X-Correlation-ID` header and records it in the
+ * diagnostics log. Registered first so the ID and timing cover all retries, and
+ * error responses always carry the ID even when the server never answered.
+ */
+@Injectable()
+export class CorrelationInterceptor implements HttpInterceptor {
+  constructor(private diagnosticsService: DiagnosticsService) {}
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!request.url.startsWith(environment.apiBaseUrl)) {
+      return next.handle(request);
+    }
+
+    const correlationId = createCorrelationId();
+    const startedAt = new Date();
+    const start = performance.now();
+    let settled = false;
+
+    // Query strings are left out of the log; they may carry the session token
+    const record = (entry: Pick<ApiCallEntry, 'status' | 'outcome' | 'message'>) => {
+      settled = true;
+      if (!request.context.get(LOG_IN_DIAGNOSTICS)) {
+        return;
+      }
+      this.diagnosticsService.record({
+        correlationId,
+        method: request.method,
+        url: request.url.slice(environment.apiBaseUrl.length) || '/',
+        startedAt,
+        durationMs: Math.round(performance.now() - start),
+        ...entry
+      });
+    };
+
+    const tagged = request.clone({ setHeaders: { [CORRELATION_ID_HEADER]: correlationId } });
+
+    return next.handle(tagged).pipe(
+      tap({
+        next: event => {
+          if (event instanceof HttpResponse) {
+            // The backend reports business failures as 200 with success: false
+            const body = event.body as { success?: boolean; message?: string } | null;
+            const failed = body?.success === false;
+            record({ status: event.status, outcome: failed ? 'error' : 'success', message: failed ? body?.message : undefined });
+          }
+        },
+        error: (error: HttpErrorResponse) => {
+          record({ status: error.status, outcome: 'error', message: error.error?.message ?? error.message });
+        }
+      }),
+      catchError(error => throwError(() => error instanceof HttpErrorResponse && !error.headers.has(CORRELATION_ID_HEADER)
+        ? new HttpErrorResponse({
+            error: error.error,
+            headers: error.headers.set(CORRELATION_ID_HEADER, correlationId),
+            status: error.status,
+            statusText: error.statusText,
+            url: error.url ?? undefined
+          })
+        : error)),
+      finalize(() => {
+        if (!settled) {
+          record({ status: null, outcome: 'cancelled' });
+        }
+      })
+    );
+  }
+}
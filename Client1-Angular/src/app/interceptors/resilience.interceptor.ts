@@ -0,0 +1,50 @@
+import { Injectable } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Observable, TimeoutError, throwError, timer } from 'rxjs';
+import { catchError, retry, timeout } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+
+// Per-request overrides: `new HttpContext().set(REQUEST_TIMEOUT, 30000)`
+export const REQUEST_TIMEOUT = new HttpContextToken<number>(() => environment.apiTimeout);
+export const MAX_RETRIES = new HttpContextToken<number>(() => 3);
+
+const RETRY_BASE_DELAY = 500;
+
+// Network failures, timeouts, throttling and gateway/server errors are worth another attempt
+export function isTransientError(error: HttpErrorResponse): boolean {
+  return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Applies `environment.apiTimeout` to every API call and retries idempotent
+ * GETs with exponential backoff (500ms, 1s, 2s). Timeouts surface as a 408
+ * HttpErrorResponse so callers see a single error type.
+ */
+@Injectable()
+export class ResilienceInterceptor implements HttpInterceptor {
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!request.url.startsWith(environment.apiBaseUrl)) {
+      return next.handle(request);
+    }
+
+    const attempt$ = next.handle(request).pipe(
+      timeout(request.context.get(REQUEST_TIMEOUT)),
+      catchError(error => throwError(() => error instanceof TimeoutError
+        ? new HttpErrorResponse({ status: 408, statusText: 'Request Timeout', url: request.url })
+        : error))
+    );
+
+    if (request.method !== 'GET') {
+      return attempt$;
+    }
+
+    return attempt$.pipe(
+      retry({
+        count: request.context.get(MAX_RETRIES),
+        delay: (error, retryCount) => error instanceof HttpErrorResponse && isTransientError(error)
+          ? timer(RETRY_BASE_DELAY * 2 ** (retryCount - 1))
+          : throwError(() => error)
+      })
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { EmpleadoRH } from '../services/api.service';
+
+// Lowercase without accents, so "gomez" finds "Gómez"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * Whether an employee matches a free-text search. Every word of the term must
+ * appear in the ID, name, position, department or email.
+ */
+export function matchesEmployee(employee: EmpleadoRH, term: string): boolean {
+  const haystack = normalize([employee.id, employee.nombre, employee.cargo, employee.departamento, employee.email].join(' '));
+  return normalize(term).split(/\s+/).every(word => haystack.includes(word));
+}
@@ -0,0 +1,106 @@
+import { Product } from './product.model';
+import { STOCK_ALERT_LABELS, StockAlertLevel, classifyStock } from './stock-alert.model';
+
+export type StockHealth = StockAlertLevel | 'healthy';
+
+export interface CategoryValue {
+  categoria: string;
+  productos: number;
+  unidades: number;
+  valor: number;
+}
+
+export interface StockHealthCount {
+  health: StockHealth;
+  // Translation key
+  label: string;
+  count: number;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Flat tabular form of a report, shared by the CSV and PDF exports
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+// Translation keys
+export const STOCK_HEALTH_LABELS: Record<StockHealth, string> = {
+  ...STOCK_ALERT_LABELS,
+  healthy: 'reports.healthy'
+};
+
+export const STOCK_HEALTH_ORDER: StockHealth[] = ['healthy', 'below-minimum', 'out-of-stock', 'overstocked'];
+
+export function inventoryValue(product: Product): number {
+  return product.precio * product.stockActual;
+}
+
+// noCategory is the label grouping products without a category
+export function valueByCategory(products: Product[], noCategory: string): CategoryValue[] {
+  const groups = new Map<string, CategoryValue>();
+
+  for (const product of products) {
+    const categoria = product.categoria || noCategory;
+    const group = groups.get(categoria) ?? { categoria, productos: 0, unidades: 0, valor: 0 };
+    group.productos++;
+    group.unidades += product.stockActual;
+    group.valor += inventoryValue(product);
+    groups.set(categoria, group);
+  }
+
+  return [...groups.values()].sort((a, b) => b.valor - a.valor);
+}
+
+export function stockHealthDistribution(products: Product[]): StockHealthCount[] {
+  const counts = new Map<StockHealth, number>();
+  for (const product of products) {
+    const health = classifyStock(product) ?? 'healthy';
+    counts.set(health, (counts.get(health) ?? 0) + 1);
+  }
+
+  return STOCK_HEALTH_ORDER.map(health => ({
+    health,
+    label: STOCK_HEALTH_LABELS[health],
+    count: counts.get(health) ?? 0
+  }));
+}
+
+export function topProductsByValue(products: Product[], limit: number): Product[] {
+  return [...products]
+    .sort((a, b) => inventoryValue(b) - inventoryValue(a))
+    .slice(0, limit);
+}
+
+/**
+ * Splits values into `bucketCount` equal-width ranges between the minimum and
+ * maximum. The last range is closed so the maximum lands in it.
+ */
+export function histogram(values: number[], bucketCount: number): HistogramBucket[] {
+  if (!values.length) {
+    return [];
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / bucketCount || 1;
+
+  const buckets: HistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0
+  }));
+
+  for (const value of values) {
+    const index = Math.min(Math.floor((value - min) / width), bucketCount - 1);
+    buckets[index].count++;
+  }
+
+  return buckets;
+}
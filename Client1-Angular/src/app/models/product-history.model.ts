@@ -0,0 +1,61 @@
+import { MovimientoInventario } from '../services/api.service';
+import { LanguageService, TranslationParams } from '../services/language.service';
+
+export type HistoryKind = 'created' | 'stock' | 'price' | 'status';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  icon: string;
+  fecha: Date;
+  usuario: string;
+  title: string;
+  detail: string;
+}
+
+// Translation keys
+export const HISTORY_KIND_LABELS: Record<HistoryKind, string> = {
+  created: 'products.detail.kinds.created',
+  stock: 'products.detail.kinds.stock',
+  price: 'products.detail.kinds.price',
+  status: 'products.detail.kinds.status'
+};
+
+export const HISTORY_KIND_ICONS: Record<HistoryKind, string> = {
+  created: 'pi pi-plus',
+  stock: 'pi pi-box',
+  price: 'pi pi-dollar',
+  status: 'pi pi-power-off'
+};
+
+// Backend tipoMovimiento values that are not stock movements
+const KIND_BY_TIPO: Record<string, HistoryKind> = {
+  Creacion: 'created',
+  CambioPrecio: 'price',
+  CambioEstado: 'status'
+};
+
+/**
+ * Timeline entry for a backend movement. Stock movements ("Entrada", "Salida",
+ * "Ajuste") describe the quantity; price and status changes carry their
+ * old/new values in `motivo`.
+ */
+export function toHistoryEntry(movimiento: MovimientoInventario, languageService: LanguageService): HistoryEntry {
+  const kind = KIND_BY_TIPO[movimiento.tipoMovimiento] ?? 'stock';
+  const t = (key: string, params?: TranslationParams) => languageService.translate(`products.detail.${key}`, params);
+  const stockChange = `${movimiento.stockAnterior} → ${movimiento.stockNuevo}`;
+
+  return {
+    id: movimiento.id,
+    kind,
+    icon: HISTORY_KIND_ICONS[kind],
+    fecha: new Date(movimiento.fechaMovimiento),
+    usuario: movimiento.usuarioResponsable || t('unknownUser'),
+    title: kind === 'stock'
+      ? t('stockTitle', { tipo: movimiento.tipoMovimiento, cantidad: movimiento.cantidad })
+      : languageService.translate(HISTORY_KIND_LABELS[kind]),
+    detail: kind === 'stock'
+      ? [t('stockDetail', { change: stockChange }), movimiento.motivo].filter(Boolean).join(' · ')
+      : kind === 'created' ? t('createdDetail', { motivo: movimiento.motivo, stock: movimiento.stockNuevo }) : movimiento.motivo
+  };
+}
@@ -0,0 +1,76 @@
+import { CreateProductRequest, Producto, UpdateProductRequest } from '../services/api.service';
+import { PRODUCT_DEFAULTS, Product, ProductFormModel } from './product.model';
+
+export function toProduct(dto: Producto): Product {
+  return {
+    id: dto.id,
+    nombre: dto.nombre,
+    categoria: dto.categoria,
+    precio: dto.precio,
+    stockActual: dto.stock,
+    stockMinimo: dto.stockMinimo,
+    stockMaximo: dto.stockMaximo,
+    descripcion: dto.descripcion ?? PRODUCT_DEFAULTS.descripcion,
+    unidadMedida: dto.unidadMedida || PRODUCT_DEFAULTS.unidadMedida,
+    activo: dto.estado,
+    fechaCreacion: new Date(dto.fechaCreacion),
+    fechaActualizacion: new Date(dto.fechaActualizacion || dto.fechaCreacion),
+    version: productVersion(dto)
+  };
+}
+
+// Never-updated products are versioned by their creation date, as the backend does
+export function productVersion(dto: Producto): string {
+  return dto.fechaActualizacion || dto.fechaCreacion;
+}
+
+// Compared as times: the same version may come with or without a trailing "Z"
+export function sameVersion(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+export function emptyProductForm(): ProductFormModel {
+  return {
+    nombre: '',
+    categoria: '',
+    descripcion: PRODUCT_DEFAULTS.descripcion,
+    precio: null,
+    stockActual: PRODUCT_DEFAULTS.stockActual,
+    stockMinimo: PRODUCT_DEFAULTS.stockMinimo,
+    stockMaximo: PRODUCT_DEFAULTS.stockMaximo,
+    unidadMedida: PRODUCT_DEFAULTS.unidadMedida
+  };
+}
+
+export function toProductForm(product: Product): ProductFormModel {
+  return {
+    id: product.id,
+    nombre: product.nombre,
+    categoria: product.categoria,
+    descripcion: product.descripcion,
+    precio: product.precio,
+    stockActual: product.stockActual,
+    stockMinimo: product.stockMinimo,
+    stockMaximo: product.stockMaximo,
+    unidadMedida: product.unidadMedida
+  };
+}
+
+export function toCreateProductRequest(form: ProductFormModel): CreateProductRequest {
+  return {
+    nombre: form.nombre.trim(),
+    descripcion: form.descripcion?.trim() || PRODUCT_DEFAULTS.descripcion,
+    precio: form.precio ?? 0,
+    categoria: form.categoria.trim(),
+    stock: form.stockActual ?? PRODUCT_DEFAULTS.stockActual,
+    stockMinimo: form.stockMinimo ?? PRODUCT_DEFAULTS.stockMinimo,
+    stockMaximo: form.stockMaximo ?? PRODUCT_DEFAULTS.stockMaximo,
+    unidadMedida: form.unidadMedida?.trim() || PRODUCT_DEFAULTS.unidadMedida
+  };
+}
+
+// Sent with the product's `version`, so the update is rejected if someone else saved
+// first, and its `activo`, since omitting estado would reactivate it
+export function toUpdateProductRequest(form: ProductFormModel, product: Product): UpdateProductRequest {
+  return { ...toCreateProductRequest(form), fechaActualizacion: product.version, estado: product.activo };
+}
@@ -0,0 +1,40 @@
+// Client-side product model; the API's `Producto` DTO is mapped in product.mapper.ts
+export interface Product {
+  id: string;
+  nombre: string;
+  categoria: string;
+  precio: number;
+  stockActual: number;
+  stockMinimo: number;
+  stockMaximo: number;
+  descripcion: string;
+  unidadMedida: string;
+  activo: boolean;
+  fechaCreacion: Date;
+  fechaActualizacion: Date;
+  // fechaActualizacion exactly as the server sent it; echoed back on updates so
+  // the backend can reject edits based on a stale copy
+  version: string;
+}
+
+// Values bound by the add/edit dialog; id is only set when editing
+export interface ProductFormModel {
+  id?: string;
+  nombre: string;
+  categoria: string;
+  descripcion: string;
+  precio: number | null;
+  stockActual: number | null;
+  stockMinimo: number | null;
+  stockMaximo: number | null;
+  unidadMedida: string;
+}
+
+// Same defaults the backend applies to CreateProductRequest
+export const PRODUCT_DEFAULTS = {
+  descripcion: '',
+  stockActual: 0,
+  stockMinimo: 10,
+  stockMaximo: 1000,
+  unidadMedida: 'Unidad'
+} as const;
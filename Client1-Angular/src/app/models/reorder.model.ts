@@ -0,0 +1,47 @@
+import { environment } from '../../environments/environment';
+import { Product } from './product.model';
+
+export type ReorderStatus = 'pending' | 'saving' | 'done' | 'failed';
+
+export interface ReorderSuggestion {
+  product: Product;
+  suggestedQuantity: number;
+  quantity: number;
+  selected: boolean;
+  status: ReorderStatus;
+  error?: string;
+}
+
+export interface ReorderGroup {
+  categoria: string;
+  suggestions: ReorderSuggestion[];
+}
+
+// Highest stock the product may reach; the backend rejects stock above stockMaximo
+export function maxReorderQuantity(product: Product): number {
+  return product.stockMaximo > 0
+    ? Math.max(0, product.stockMaximo - product.stockActual)
+    : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Quantity needed to refill a product up to its maximum, or
+ * `environment.reorderQuantity` when no maximum is configured.
+ */
+export function suggestReorderQuantity(product: Product): number {
+  const refill = maxReorderQuantity(product);
+  return refill === Number.MAX_SAFE_INTEGER ? environment.reorderQuantity : refill;
+}
+
+// noCategory is the label grouping products without a category
+export function groupByCategory(suggestions: ReorderSuggestion[], noCategory: string): ReorderGroup[] {
+  const groups = new Map<string, ReorderSuggestion[]>();
+  for (const suggestion of suggestions) {
+    const categoria = suggestion.product.categoria || noCategory;
+    groups.set(categoria, [...(groups.get(categoria) ?? []), suggestion]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([categoria, items]) => ({ categoria, suggestions: items }));
+}
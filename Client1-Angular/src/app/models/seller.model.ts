@@ -0,0 +1,106 @@
+import { HistorialAutorizacion, Vendedor } from '../services/api.service';
+
+// A seller that was never authorized has no authorizing HR employee
+export type SellerStatus = 'authorized' | 'revoked' | 'pending';
+
+// Translation keys
+export const SELLER_STATUS_LABELS: Record<SellerStatus, string> = {
+  authorized: 'sellers.status.authorized',
+  revoked: 'sellers.status.revoked',
+  pending: 'sellers.status.pending'
+};
+
+export interface TerritorySummary {
+  territorio: string;
+  sellerCount: number;
+  averageCommission: number;
+  minCommission: number;
+  maxCommission: number;
+  lastAuthorization: Date | null;
+}
+
+export interface CommissionProjection {
+  salesAmount: number;
+  commissionRate: number;
+  commission: number;
+  annualCommission: number;
+}
+
+export function sellerStatus(vendedor: Vendedor): SellerStatus {
+  if (vendedor.autorizado) {
+    return 'authorized';
+  }
+  return vendedor.empleadoRHAutorizo ? 'revoked' : 'pending';
+}
+
+/**
+ * Authorization changes of a seller, newest first. Sellers authorized before
+ * the backend kept a history only have their current state, which is shown as
+ * the single entry with `legacyMotivo` as its reason.
+ */
+export function authorizationTimeline(vendedor: Vendedor, historial: HistorialAutorizacion[], legacyMotivo: string): HistorialAutorizacion[] {
+  if (historial.length || sellerStatus(vendedor) === 'pending') {
+    return [...historial].sort((a, b) => new Date(b.fecha).getTime() - new Date(a.fecha).getTime());
+  }
+
+  return [{
+    id: `${vendedor.codigoVendedor}-actual`,
+    codigoVendedor: vendedor.codigoVendedor,
+    autorizado: vendedor.autorizado,
+    motivo: legacyMotivo,
+    empleadoRH: vendedor.empleadoRHAutorizo,
+    usuarioResponsable: '',
+    fecha: vendedor.fechaAutorizacion
+  }];
+}
+
+// noTerritory is the label grouping sellers without a territory
+export function territoryOf(vendedor: Vendedor, noTerritory: string): string {
+  return vendedor.territorio?.trim() || noTerritory;
+}
+
+// Sorted by territory then name, the order the grouped table expects
+export function sortByTerritory(vendedores: Vendedor[], noTerritory: string): Vendedor[] {
+  return [...vendedores].sort((a, b) =>
+    territoryOf(a, noTerritory).localeCompare(territoryOf(b, noTerritory)) || a.nombre.localeCompare(b.nombre));
+}
+
+export function summarizeTerritories(vendedores: Vendedor[], noTerritory: string): TerritorySummary[] {
+  const groups = new Map<string, Vendedor[]>();
+  for (const vendedor of vendedores) {
+    const territorio = territoryOf(vendedor, noTerritory);
+    groups.set(territorio, [...(groups.get(territorio) ?? []), vendedor]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([territorio, items]) => {
+      const rates = items.map(vendedor => vendedor.comision);
+      const dates = items
+        .map(vendedor => new Date(vendedor.fechaAutorizacion).getTime())
+        .filter(time => !isNaN(time));
+
+      return {
+        territorio,
+        sellerCount: items.length,
+        averageCommission: rates.reduce((sum, rate) => sum + rate, 0) / items.length,
+        minCommission: Math.min(...rates),
+        maxCommission: Math.max(...rates),
+        lastAuthorization: dates.length ? new Date(Math.max(...dates)) : null
+      };
+    });
+}
+
+/**
+ * Earnings for a monthly sales amount at a commission percentage; the annual
+ * figure assumes the same sales every month.
+ */
+export function projectCommission(salesAmount: number, commissionRate: number): CommissionProjection {
+  const commission = salesAmount * commissionRate / 100;
+  return {
+    salesAmount,
+    commissionRate,
+    commission,
+    annualCommission: commission * 12
+  };
+}
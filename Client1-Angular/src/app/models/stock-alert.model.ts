@@ -0,0 +1,39 @@
+import { environment } from '../../environments/environment';
+import { Product } from './product.model';
+
+export type StockAlertLevel = 'out-of-stock' | 'below-minimum' | 'overstocked';
+
+export interface StockAlert {
+  product: Product;
+  level: StockAlertLevel;
+}
+
+// Translation keys
+export const STOCK_ALERT_LABELS: Record<StockAlertLevel, string> = {
+  'out-of-stock': 'stockAlerts.levels.outOfStock',
+  'below-minimum': 'stockAlerts.levels.belowMinimum',
+  'overstocked': 'stockAlerts.levels.overstocked'
+};
+
+// Most urgent first; used to sort the alerts panel
+export const STOCK_ALERT_PRIORITY: StockAlertLevel[] = ['out-of-stock', 'below-minimum', 'overstocked'];
+
+/**
+ * Classifies a product against its stock limits; stock exactly at the minimum
+ * is not an alert. Products without a configured minimum fall back to
+ * `environment.lowStockThreshold`.
+ */
+export function classifyStock(product: Product): StockAlertLevel | null {
+  const minimum = product.stockMinimo > 0 ? product.stockMinimo : environment.lowStockThreshold;
+
+  if (product.stockActual <= 0) {
+    return 'out-of-stock';
+  }
+  if (product.stockActual < minimum) {
+    return 'below-minimum';
+  }
+  if (product.stockMaximo > 0 && product.stockActual > product.stockMaximo) {
+    return 'overstocked';
+  }
+  return null;
+}
@@ -0,0 +1,27 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { storedLanguage } from '../i18n/language';
+
+// Grouping follows the user's language: $2.500.000 in es-CO, $2,500,000 in en-US
+const MONEY_FORMAT = new Intl.NumberFormat(storedLanguage(), { maximumFractionDigits: 0 });
+
+/**
+ * Formats an amount in the configured currency, e.g. `$2.500.000 COP`.
+ * Exported for places outside templates such as file exports.
+ */
+export function formatMoney(value: number, withCode: boolean = false): string {
+  const amount = `${environment.currencySymbol}${MONEY_FORMAT.format(value)}`;
+  return withCode ? `${amount} ${environment.currency}` : amount;
+}
+
+/**
+ * Template form of `formatMoney`: `{{ product.precio | money }}`
+ */
+@Pipe({
+  name: 'money'
+})
+export class MoneyPipe implements PipeTransform {
+  transform(value: number | null | undefined, withCode: boolean = false): string {
+    return value === null || value === undefined ? '' : formatMoney(value, withCode);
+  }
+}
@@ -0,0 +1,17 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { LanguageService, TranslationParams } from '../services/language.service';
+
+/**
+ * Template form of `LanguageService.translate`:
+ * `{{ 'products.messages.createdDetail' | translate:{ nombre: product.nombre } }}`
+ */
+@Pipe({
+  name: 'translate'
+})
+export class TranslatePipe implements PipeTransform {
+  constructor(private languageService: LanguageService) {}
+
+  transform(key: string, params?: TranslationParams): string {
+    return this.languageService.translate(key, params);
+  }
+}
@@ -1,8 +1,11 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { HttpClient, HttpErrorResponse, HttpParameterCodec, HttpParams } from '@angular/common/http';
+import { EMPTY, Observable, throwError } from 'rxjs';
+import { catchError, expand, map, reduce } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { CORRELATION_ID_HEADER } from '../interceptors/correlation.interceptor';
+import { matchesEmployee } from '../models/hr-employee.model';
+import { LanguageService } from './language.service';
 
 // API Response interface matching our backend
 export interface ApiResponse<T> {
@@ -14,6 +17,40 @@ export interface ApiResponse<T> {
   correlationId?: string;
 }
 
+// Error raised by ApiService; keeps the backend's per-field errors for forms.
+// `status` is 0 when the server could not be reached and 408 on timeout.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errors: string[] = [],
+    public readonly correlationId?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+
+  get isTimeout(): boolean {
+    return this.status === 408;
+  }
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+// Angular's default codec leaves '+' and '=' unescaped, which corrupts tokens
+const STRICT_PARAM_CODEC: HttpParameterCodec = {
+  encodeKey: key => encodeURIComponent(key),
+  encodeValue: value => encodeURIComponent(value),
+  decodeKey: key => decodeURIComponent(key),
+  decodeValue: value => decodeURIComponent(value)
+};
+
 // Authorization interfaces
 export interface AuthorizationRequest {
   codigoVendedor: string;
@@ -29,21 +66,32 @@ export interface LoginRequest {
   password: string;
 }
 
+// Mirrors the backend UserRole enum (serialized as its numeric value)
+export enum UserRole {
+  Admin = 1,
+  HRManager = 2,
+  SalesRep = 3,
+  InventoryManager = 4,
+  DeliveryManager = 5
+}
+
+export interface Usuario {
+  id: string;
+  username: string;
+  nombre: string;
+  rol: UserRole;
+  activo: boolean;
+  email: string;
+  apellido: string;
+  fechaCreacion: string;
+  fechaActualizacion: string;
+  ultimoLogin: string;
+  vendedorId?: string;
+  vendedor?: any;
+}
+
 export interface LoginResponse {
-  usuario: {
-    id: string;
-    username: string;
-    nombre: string;
-    rol: number;
-    activo: boolean;
-    email: string;
-    apellido: string;
-    fechaCreacion: string;
-    fechaActualizacion: string;
-    ultimoLogin: string;
-    vendedorId?: string;
-    vendedor?: any;
-  };
+  usuario: Usuario;
   token: string;
   expiresAt: string;
 }
@@ -52,7 +100,7 @@ export interface User {
   id: string;
   username: string;
   nombre: string;
-  rol: string;
+  rol: UserRole;
 }
 export interface Vendedor {
   codigoVendedor: string;
@@ -64,6 +112,24 @@ export interface Vendedor {
   empleadoRHAutorizo: string;
 }
 
+// Body of PUT /Autorizacion/vendedores/{code}/authorization; the reason is required
+export interface UpdateAuthorizationRequest {
+  autorizado: boolean;
+  empleadoRH: string;
+  motivo: string;
+}
+
+// Entry of GET /Autorizacion/vendedores/{code}/history
+export interface HistorialAutorizacion {
+  id: string;
+  codigoVendedor: string;
+  autorizado: boolean;
+  motivo: string;
+  empleadoRH: string;
+  usuarioResponsable: string;
+  fecha: string;
+}
+
 export interface ValidationResponse {
   isValid: boolean;
   reason: string;
@@ -98,6 +164,55 @@ export interface Producto {
   fechaActualizacion: string;
 }
 
+export type ProductChangeType = 'created' | 'updated' | 'deleted';
+
+// Event of the GET /Productos/changes stream; usuario is null when the change
+// was detected by polling instead
+export interface ProductChange {
+  type: ProductChangeType;
+  productoId: string;
+  producto?: Producto;
+  usuario: string | null;
+  fecha: string;
+}
+
+// Body of POST/PUT /Productos (backend CreateProductRequest)
+export interface CreateProductRequest {
+  nombre: string;
+  descripcion: string;
+  precio: number;
+  categoria: string;
+  stock: number;
+  stockMinimo: number;
+  stockMaximo: number;
+  unidadMedida: string;
+}
+
+// fechaActualizacion is the version the client edited; the API answers 409 with
+// the current product when it no longer matches. Omit it to overwrite.
+// Omitting estado reactivates the product.
+export interface UpdateProductRequest extends CreateProductRequest {
+  fechaActualizacion?: string;
+  estado?: boolean;
+}
+
+// Entry of GET /Productos/{id}/history. Besides stock movements, price and status
+// changes are recorded here with cantidad 0 and the old/new values in motivo.
+export interface MovimientoInventario {
+  id: string;
+  idProducto: string;
+  tipoMovimiento: string;
+  cantidad: number;
+  stockAnterior: number;
+  stockNuevo: number;
+  motivo: string;
+  documentoReferencia: string | null;
+  fechaMovimiento: string;
+  usuarioResponsable: string;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface ProductListResponse {
   products: Producto[];
   totalCount: number;
@@ -113,7 +228,10 @@ export interface ProductListResponse {
 export class ApiService {
   private readonly baseUrl = environment.apiBaseUrl;
 
-  constructor(private http: HttpClient) {
+  constructor(
+    private http: HttpClient,
+    private languageService: LanguageService
+  ) {
     // Log configuration in development
     if (!environment.production) {
       console.log('API Service initialized with base URL:', this.baseUrl);
@@ -122,147 +240,142 @@ export class ApiService {
 
   // Authentication Methods
   login(credentials: LoginRequest): Observable<LoginResponse> {
-    return this.http.post<ApiResponse<LoginResponse>>(`${this.baseUrl}/Authentication/login`, credentials)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<LoginResponse>('POST', 'Authentication/login', { body: credentials });
   }
 
   logout(token: string): Observable<any> {
-    return this.http.post<ApiResponse<any>>(`${this.baseUrl}/Authentication/logout`, { token })
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<any>('POST', 'Authentication/logout', { body: { token } });
   }
 
-  validateToken(token: string): Observable<User> {
-    return this.http.get<ApiResponse<User>>(`${this.baseUrl}/Authentication/validate?token=${token}`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+  validateToken(token: string): Observable<Usuario> {
+    return this.request<Usuario>('GET', 'Authentication/validate', { params: { token } });
   }
 
   // Authorization Component (RF1) Methods
   authorizeVendedor(request: AuthorizationRequest): Observable<Vendedor> {
-    return this.http.post<ApiResponse<Vendedor>>(`${this.baseUrl}/Autorizacion/authorize`, request)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<Vendedor>('POST', 'Autorizacion/authorize', { body: request });
   }
 
   validateAuthorization(codigoVendedor: string): Observable<ValidationResponse> {
-    return this.http.get<ApiResponse<ValidationResponse>>(`${this.baseUrl}/Autorizacion/validate/${codigoVendedor}`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<ValidationResponse>('GET', `Autorizacion/validate/${encodeURIComponent(codigoVendedor)}`);
   }
 
   getAuthorizedVendedores(): Observable<Vendedor[]> {
-    return this.http.get<ApiResponse<Vendedor[]>>(`${this.baseUrl}/Autorizacion/vendedores`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<Vendedor[]>('GET', 'Autorizacion/vendedores');
   }
 
   getVendedorByCode(codigoVendedor: string): Observable<Vendedor> {
-    return this.http.get<ApiResponse<Vendedor>>(`${this.baseUrl}/Autorizacion/vendedores/${codigoVendedor}`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<Vendedor>('GET', `Autorizacion/vendedores/${encodeURIComponent(codigoVendedor)}`);
+  }
+
+  // Sellers that are not authorized: never granted or revoked
+  getPendingSellers(): Observable<Vendedor[]> {
+    return this.request<Vendedor[]>('GET', 'Autorizacion/pending-sellers');
+  }
+
+  updateAuthorizationStatus(codigoVendedor: string, request: UpdateAuthorizationRequest): Observable<Vendedor> {
+    return this.request<Vendedor>('PUT', `Autorizacion/vendedores/${encodeURIComponent(codigoVendedor)}/authorization`, { body: request });
+  }
+
+  getAuthorizationHistory(codigoVendedor: string): Observable<HistorialAutorizacion[]> {
+    return this.request<HistorialAutorizacion[]>('GET', `Autorizacion/vendedores/${encodeURIComponent(codigoVendedor)}/history`);
+  }
+
+  getHREmployees(): Observable<EmpleadoRH[]> {
+    return this.request<EmpleadoRH[]>('GET', 'Autorizacion/hr-employees');
+  }
+
+  // The backend only lists every employee, so the search runs on that list
+  searchHREmployees(term: string, activeOnly: boolean = true): Observable<EmpleadoRH[]> {
+    return this.getHREmployees().pipe(
+      map(employees => employees.filter(employee => (!activeOnly || employee.activo) && matchesEmployee(employee, term)))
+    );
   }
 
   // Products Component (RF2) Methods
-  getProducts(page: number = 1, pageSize: number = 50, categoria?: string, activo?: boolean, searchTerm?: string): Observable<ProductListResponse> {
-    let params = new URLSearchParams();
-    params.append('page', page.toString());
-    params.append('pageSize', pageSize.toString());
-    if (categoria) params.append('categoria', categoria);
-    if (activo !== undefined) params.append('activo', activo.toString());
-    if (searchTerm) params.append('searchTerm', searchTerm);
-
-    return this.http.get<ApiResponse<ProductListResponse>>(`${this.baseUrl}/Productos?${params.toString()}`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+  getProducts(page: number = 1, pageSize: number = 50, categoria?: string, activo?: boolean, searchTerm?: string, sortField?: string, sortOrder?: SortOrder): Observable<ProductListResponse> {
+    return this.request<ProductListResponse>('GET', 'Productos', {
+      params: { page, pageSize, categoria, activo, searchTerm, sortField, sortOrder }
+    });
+  }
+
+  // Walks every page of the catalog; for aggregate views that need the whole inventory
+  getAllProducts(categoria?: string, activo?: boolean, searchTerm?: string): Observable<Producto[]> {
+    const pageSize = 100;
+    return this.getProducts(1, pageSize, categoria, activo, searchTerm).pipe(
+      expand(response => response.page < response.totalPages
+        ? this.getProducts(response.page + 1, pageSize, categoria, activo, searchTerm)
+        : EMPTY),
+      reduce((products: Producto[], response) => products.concat(response.products), [])
+    );
+  }
+
+  getCategories(): Observable<string[]> {
+    return this.request<string[]>('GET', 'Productos/categories');
   }
 
   getProductById(id: string): Observable<Producto> {
-    return this.http.get<ApiResponse<Producto>>(`${this.baseUrl}/Productos/${id}`)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+    return this.request<Producto>('GET', `Productos/${encodeURIComponent(id)}`);
   }
 
-  createProduct(product: Partial<Producto>): Observable<Producto> {
-    // Transform frontend model to backend request format
-    const createRequest = {
-      nombre: product.nombre,
-      descripcion: product.descripcion || '',
-      precio: product.precio,
-      categoria: product.categoria,
-      stock: product.stock || 0,
-      stockMinimo: product.stockMinimo || 10,
-      stockMaximo: product.stockMaximo || 1000,
-      unidadMedida: product.unidadMedida || 'Unidad'
-    };
-
-    return this.http.post<ApiResponse<Producto>>(`${this.baseUrl}/Productos`, createRequest)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+  createProduct(request: CreateProductRequest): Observable<Producto> {
+    return this.request<Producto>('POST', 'Productos', { body: request });
   }
 
-  updateProduct(id: string, product: Partial<Producto>): Observable<Producto> {
-    // Transform frontend model to backend request format
-    const updateRequest = {
-      nombre: product.nombre,
-      descripcion: product.descripcion || '',
-      precio: product.precio,
-      categoria: product.categoria,
-      stock: product.stock || 0,
-      stockMinimo: product.stockMinimo || 10,
-      stockMaximo: product.stockMaximo || 1000,
-      unidadMedida: product.unidadMedida || 'Unidad'
-    };
-
-    return this.http.put<ApiResponse<Producto>>(`${this.baseUrl}/Productos/${id}`, updateRequest)
-      .pipe(
-        map(response => this.handleApiResponse(response)),
-        catchError(this.handleError)
-      );
+  updateProduct(id: string, request: UpdateProductRequest): Observable<Producto> {
+    return this.request<Producto>('PUT', `Productos/${encodeURIComponent(id)}`, { body: request });
   }
 
   deleteProduct(id: string): Observable<boolean> {
-    return this.http.delete<ApiResponse<boolean>>(`${this.baseUrl}/Productos/${id}`)
+    return this.request<boolean>('DELETE', `Productos/${encodeURIComponent(id)}`);
+  }
+
+  getProductHistory(id: string): Observable<MovimientoInventario[]> {
+    return this.request<MovimientoInventario[]>('GET', `Productos/${encodeURIComponent(id)}/history`);
+  }
+
+  /**
+   * Single pipeline for every backend call: unwraps the ApiResponse envelope and
+   * turns any failure into an ApiError. Timeouts and GET retries are applied by
+   * ResilienceInterceptor; unsubscribing aborts the HTTP request.
+   */
+  private request<T>(method: HttpMethod, path: string, options: { params?: QueryParams; body?: unknown } = {}): Observable<T> {
+    let params = new HttpParams({ encoder: STRICT_PARAM_CODEC });
+    for (const [key, value] of Object.entries(options.params ?? {})) {
+      if (value !== undefined && value !== '') {
+        params = params.set(key, String(value));
+      }
+    }
+
+    return this.http.request<ApiResponse<T>>(method, `${this.baseUrl}/${path}`, { params, body: options.body, observe: 'response' })
       .pipe(
-        map(response => this.handleApiResponse(response)),
+        map(response => this.handleApiResponse(response.body!, response.headers.get(CORRELATION_ID_HEADER))),
         catchError(this.handleError)
       );
   }
 
   // Helper methods
-  private handleApiResponse<T>(response: ApiResponse<T>): T {
+  private handleApiResponse<T>(response: ApiResponse<T>, correlationId: string | null): T {
     if (response.success) {
       return response.data;
     } else {
-      throw new Error(response.message || 'API request failed');
+      throw new ApiError(response.message || 'API request failed', 200, response.errors ?? [], response.correlationId ?? correlationId ?? undefined);
     }
   }
 
-  private handleError = (error: HttpErrorResponse): Observable<never> => {
+  private handleError = (error: HttpErrorResponse | ApiError): Observable<never> => {
+    if (error instanceof ApiError) {
+      return throwError(() => error);
+    }
+
     let errorMessage = 'An error occurred';
     
-    if (error.error instanceof ErrorEvent) {
+    if (error.status === 0) {
+      // Server unreachable (offline, CORS or connection refused)
+      errorMessage = this.languageService.translate('common.connectionError');
+    } else if (error.status === 408) {
+      errorMessage = this.languageService.translate('common.timeoutError');
+    } else if (error.error instanceof ErrorEvent) {
       // Client-side error
       errorMessage = `Error: ${error.error.message}`;
     } else {
@@ -276,7 +389,9 @@ export class ApiService {
       }
     }
     
-    console.error('API Error:', errorMessage);
-    return throwError(() => new Error(errorMessage));
+    // Failed calls are logged by CorrelationInterceptor into the diagnostics log
+    const body: Partial<ApiResponse<unknown>> | null = error.error && typeof error.error === 'object' ? error.error : null;
+    const correlationId = body?.correlationId ?? error.headers?.get(CORRELATION_ID_HEADER) ?? undefined;
+    return throwError(() => new ApiError(errorMessage, error.status, body?.errors ?? [], correlationId));
   };
 }
@@ -0,0 +1,192 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, of } from 'rxjs';
+import { catchError, map, shareReplay, tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { ApiError, ApiService, LoginResponse, Usuario } from './api.service';
+
+const CURRENT_USER_KEY = 'currentUser';
+const AUTH_TOKEN_KEY = 'authToken';
+const EXPIRES_AT_KEY = 'authExpiresAt';
+
+export type SessionEndReason = 'logout' | 'expired' | 'idle' | 'unauthorized' | 'remote';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService implements OnDestroy {
+  private readonly currentUserSubject = new BehaviorSubject<Usuario | null>(this.readStoredUser());
+  readonly currentUser$: Observable<Usuario | null> = this.currentUserSubject.asObservable();
+
+  private readonly sessionEndedSubject = new Subject<SessionEndReason>();
+  readonly sessionEnded$: Observable<SessionEndReason> = this.sessionEndedSubject.asObservable();
+
+  // Stored token is validated against the backend once per app start
+  private sessionValidation$: Observable<boolean> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private apiService: ApiService) {
+    window.addEventListener('storage', this.onStorageChange);
+    this.scheduleExpiry();
+  }
+
+  ngOnDestroy() {
+    window.removeEventListener('storage', this.onStorageChange);
+    this.clearExpiryTimer();
+  }
+
+  get currentUser(): Usuario | null {
+    return this.currentUserSubject.value;
+  }
+
+  get token(): string | null {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  }
+
+  get expiresAt(): Date | null {
+    const stored = localStorage.getItem(EXPIRES_AT_KEY);
+    const expiresAt = stored ? new Date(stored) : null;
+    return expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : null;
+  }
+
+  isLoggedIn(): boolean {
+    return this.currentUser !== null && this.token !== null;
+  }
+
+  startSession(response: LoginResponse) {
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(response.usuario));
+    localStorage.setItem(AUTH_TOKEN_KEY, response.token);
+    localStorage.setItem(EXPIRES_AT_KEY, response.expiresAt);
+    this.sessionValidation$ = of(true);
+    this.currentUserSubject.next(response.usuario);
+    this.scheduleExpiry();
+  }
+
+  // Revokes the token on the backend, then ends the local session right away
+  logout(reason: SessionEndReason = 'logout') {
+    const token = this.token;
+    if (token) {
+      this.apiService.logout(token).subscribe({
+        error: (error) => {
+          if (environment.enableDebugLogs) {
+            console.warn('Server-side logout failed:', error.message);
+          }
+        }
+      });
+    }
+    this.endSession(reason);
+  }
+
+  // Ends the local session without contacting the backend
+  endSession(reason: SessionEndReason) {
+    const hadSession = this.currentUser !== null || this.token !== null;
+    this.clearSession();
+
+    // Several requests can fail at once; only notify for the first one
+    if (hadSession) {
+      this.sessionEndedSubject.next(reason);
+    }
+  }
+
+  validateSession(): Observable<boolean> {
+    const token = this.token;
+    if (!token || !this.currentUser || this.isExpired()) {
+      this.clearSession();
+      return of(false);
+    }
+
+    if (!this.sessionValidation$) {
+      this.sessionValidation$ = this.apiService.validateToken(token).pipe(
+        tap(usuario => this.refreshUser(usuario)),
+        map(() => true),
+        catchError(error => {
+          // An unreachable API says nothing about the token: offline mode keeps the
+          // stored session and the next navigation validates it again
+          if (error instanceof ApiError && (error.isNetworkError || error.isTimeout)) {
+            this.sessionValidation$ = null;
+            return of(true);
+          }
+          this.clearSession();
+          return of(false);
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.sessionValidation$;
+  }
+
+  private clearSession() {
+    localStorage.removeItem(CURRENT_USER_KEY);
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(EXPIRES_AT_KEY);
+    this.sessionValidation$ = null;
+    this.clearExpiryTimer();
+    this.currentUserSubject.next(null);
+  }
+
+  private isExpired(): boolean {
+    const expiresAt = this.expiresAt;
+    return expiresAt !== null && expiresAt.getTime() <= Date.now();
+  }
+
+  private scheduleExpiry() {
+    this.clearExpiryTimer();
+
+    const expiresAt = this.expiresAt;
+    if (!expiresAt || !this.token) {
+      return;
+    }
+
+    // setTimeout overflows above ~24.8 days; re-arm from the remaining time instead
+    const remaining = expiresAt.getTime() - Date.now();
+    const maxDelay = 2147483647;
+    this.expiryTimer = setTimeout(() => {
+      if (this.isExpired()) {
+        this.endSession('expired');
+      } else {
+        this.scheduleExpiry();
+      }
+    }, Math.max(0, Math.min(remaining, maxDelay)));
+  }
+
+  private clearExpiryTimer() {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  // Keeps every open tab in sync with logins and logouts made in the others
+  private onStorageChange = (event: StorageEvent) => {
+    if (event.key !== AUTH_TOKEN_KEY && event.key !== null) {
+      return;
+    }
+
+    if (this.token) {
+      this.sessionValidation$ = null;
+      this.currentUserSubject.next(this.readStoredUser());
+      this.scheduleExpiry();
+    } else if (this.currentUser) {
+      this.endSession('remote');
+    }
+  };
+
+  private refreshUser(usuario: Usuario) {
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(usuario));
+    this.currentUserSubject.next(usuario);
+  }
+
+  private readStoredUser(): Usuario | null {
+    const stored = localStorage.getItem(CURRENT_USER_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as Usuario;
+    } catch {
+      localStorage.removeItem(CURRENT_USER_KEY);
+      return null;
+    }
+  }
+}
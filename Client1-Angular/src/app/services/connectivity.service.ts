@@ -0,0 +1,60 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Observable, Subscription, fromEvent, interval } from 'rxjs';
+import { distinctUntilChanged, filter, map, switchMap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { MAX_RETRIES } from '../interceptors/resilience.interceptor';
+import { DiagnosticsService } from './diagnostics.service';
+
+const PROBE_INTERVAL = 15000;
+
+/**
+ * Tracks whether the API is reachable. Status comes from the outcome of real
+ * API calls (status 0 means unreachable) plus the browser's online/offline
+ * events; while offline the API is probed periodically.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService implements OnDestroy {
+  private readonly onlineSubject = new BehaviorSubject<boolean>(navigator.onLine);
+  readonly online$: Observable<boolean> = this.onlineSubject.pipe(distinctUntilChanged());
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private http: HttpClient,
+    private diagnosticsService: DiagnosticsService
+  ) {
+    this.subscriptions.add(
+      this.diagnosticsService.entries$.pipe(
+        map(entries => entries[0]),
+        filter(entry => !!entry && entry.status !== null),
+        distinctUntilChanged()
+      ).subscribe(entry => this.onlineSubject.next(entry.status !== 0))
+    );
+
+    this.subscriptions.add(fromEvent(window, 'offline').subscribe(() => this.onlineSubject.next(false)));
+    this.subscriptions.add(fromEvent(window, 'online').subscribe(() => this.probe()));
+
+    this.subscriptions.add(
+      this.online$.pipe(
+        switchMap(online => online ? EMPTY : interval(PROBE_INTERVAL))
+      ).subscribe(() => this.probe())
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  // The result is picked up from the diagnostics log like any other call
+  probe() {
+    this.http.get(environment.apiBaseUrl, { context: new HttpContext().set(MAX_RETRIES, 0) })
+      .subscribe({ error: () => undefined });
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { LanguageService } from './language.service';
+
+export type ApiCallOutcome = 'success' | 'error' | 'cancelled';
+
+export interface ApiCallEntry {
+  correlationId: string;
+  method: string;
+  url: string;
+  startedAt: Date;
+  durationMs: number;
+  // HTTP status; 0 when the server was unreachable, null when cancelled
+  status: number | null;
+  outcome: ApiCallOutcome;
+  message?: string;
+}
+
+// Oldest entries are dropped once the buffer is full
+const MAX_ENTRIES = 200;
+
+/**
+ * In-memory log of recent API calls, fed by CorrelationInterceptor. Nothing is
+ * persisted; the log lives as long as the tab.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DiagnosticsService {
+  private readonly entriesSubject = new BehaviorSubject<ApiCallEntry[]>([]);
+  readonly entries$: Observable<ApiCallEntry[]> = this.entriesSubject.asObservable();
+
+  constructor(private languageService: LanguageService) {}
+
+  record(entry: ApiCallEntry) {
+    const entries = [entry, ...this.entriesSubject.value];
+    this.entriesSubject.next(entries.slice(0, MAX_ENTRIES));
+
+    if (environment.enableDebugLogs && entry.outcome === 'error') {
+      console.error(`API ${entry.method} ${entry.url} failed [${entry.correlationId}]:`, entry.message);
+    }
+  }
+
+  clear() {
+    this.entriesSubject.next([]);
+  }
+
+  // Plain-text report meant to be pasted into a support ticket
+  buildReport(entries: ApiCallEntry[] = this.entriesSubject.value): string {
+    const header = [
+      `${environment.appName} v${environment.appVersion} (${environment.environment})`,
+      this.languageService.translate('diagnostics.report.generatedAt', { date: new Date().toISOString() }),
+      `API: ${environment.apiBaseUrl}`,
+      this.languageService.translate('diagnostics.report.page', { path: `${location.pathname}${location.search}` }),
+      this.languageService.translate('diagnostics.report.browser', { userAgent: navigator.userAgent }),
+      ''
+    ];
+
+    const lines = entries.map(entry => [
+      entry.startedAt.toISOString(),
+      entry.correlationId,
+      entry.method,
+      entry.url,
+      entry.status ?? '-',
+      `${entry.durationMs}ms`,
+      entry.outcome,
+      entry.message ?? ''
+    ].join(' | ').trim());
+
+    return header.concat(lines).join('\n');
+  }
+}
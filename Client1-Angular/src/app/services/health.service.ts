@@ -0,0 +1,130 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, merge, of, timer } from 'rxjs';
+import { catchError, exhaustMap, finalize, map, switchMap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { LOG_IN_DIAGNOSTICS } from '../interceptors/correlation.interceptor';
+import { MAX_RETRIES, REQUEST_TIMEOUT } from '../interceptors/resilience.interceptor';
+import { AuthService } from './auth.service';
+
+export type HealthStatus = 'online' | 'degraded' | 'offline';
+
+// Why a check was not 'online'; noNetwork is the user's side, the rest the server's
+export type HealthIssue = 'noNetwork' | 'unreachable' | 'timeout' | 'database' | 'slow' | 'serverError';
+
+export interface HealthCheck {
+  checkedAt: Date;
+  status: HealthStatus;
+  latencyMs: number;
+  // HTTP status; 0 when the server was unreachable
+  httpStatus: number;
+  // Whether the server reached its database; null when the server did not answer
+  database: boolean | null;
+  issue?: HealthIssue;
+}
+
+// Body of GET /health
+interface HealthResponse {
+  status: 'Healthy' | 'Degraded';
+  database: boolean;
+  databaseLatencyMs: number;
+  version: string;
+  timestamp: string;
+}
+
+// Answers slower than this count as degraded
+export const SLOW_RESPONSE_MS = 2000;
+
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+// Oldest checks are dropped once the buffer is full
+const MAX_CHECKS = 50;
+
+/**
+ * Pings GET /health every `healthCheckInterval` while a user is logged in and
+ * keeps the recent results in memory. Checks are not retried and stay out of
+ * the diagnostics log, so each one reflects a single attempt.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HealthService implements OnDestroy {
+  private readonly checksSubject = new BehaviorSubject<HealthCheck[]>([]);
+  readonly checks$: Observable<HealthCheck[]> = this.checksSubject.asObservable();
+  readonly latest$: Observable<HealthCheck | null> = this.checks$.pipe(map(checks => checks[0] ?? null));
+
+  private readonly checkingSubject = new BehaviorSubject<boolean>(false);
+  readonly checking$: Observable<boolean> = this.checkingSubject.asObservable();
+
+  private readonly checkNow$ = new Subject<void>();
+  private subscription: Subscription;
+
+  constructor(
+    private http: HttpClient,
+    authService: AuthService
+  ) {
+    this.subscription = authService.currentUser$.pipe(
+      switchMap(user => user ? merge(timer(0, environment.healthCheckInterval), this.checkNow$) : EMPTY),
+      exhaustMap(() => this.check())
+    ).subscribe(check => this.record(check));
+  }
+
+  ngOnDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  // Ignored while a check is already running
+  checkNow() {
+    this.checkNow$.next();
+  }
+
+  private check(): Observable<HealthCheck> {
+    const checkedAt = new Date();
+    const start = performance.now();
+    const elapsed = () => Math.round(performance.now() - start);
+    const context = new HttpContext()
+      .set(MAX_RETRIES, 0)
+      .set(REQUEST_TIMEOUT, HEALTH_CHECK_TIMEOUT)
+      .set(LOG_IN_DIAGNOSTICS, false);
+
+    this.checkingSubject.next(true);
+
+    return this.http.get<HealthResponse>(`${environment.apiBaseUrl}/health`, { context }).pipe(
+      map((response): HealthCheck => {
+        const latencyMs = elapsed();
+        const issue = !response.database ? 'database' : latencyMs > SLOW_RESPONSE_MS ? 'slow' : undefined;
+        return { checkedAt, status: issue ? 'degraded' : 'online', latencyMs, httpStatus: 200, database: response.database, issue };
+      }),
+      catchError((error: HttpErrorResponse) => of(this.failedCheck(error, checkedAt, elapsed()))),
+      finalize(() => this.checkingSubject.next(false))
+    );
+  }
+
+  // No answer means offline; an answer with an error status means the server is up but degraded
+  private failedCheck(error: HttpErrorResponse, checkedAt: Date, latencyMs: number): HealthCheck {
+    if (error.status === 0 || error.status === 408) {
+      const issue = !navigator.onLine ? 'noNetwork' : error.status === 408 ? 'timeout' : 'unreachable';
+      return { checkedAt, status: 'offline', latencyMs, httpStatus: error.status, database: null, issue };
+    }
+
+    const body = error.error as Partial<HealthResponse> | null;
+    const database = typeof body?.database === 'boolean' ? body.database : null;
+    return {
+      checkedAt,
+      status: 'degraded',
+      latencyMs,
+      httpStatus: error.status,
+      database,
+      issue: database === false ? 'database' : 'serverError'
+    };
+  }
+
+  private record(check: HealthCheck) {
+    const checks = [check, ...this.checksSubject.value];
+    this.checksSubject.next(checks.slice(0, MAX_CHECKS));
+
+    if (environment.enableDebugLogs && check.status !== 'online') {
+      console.warn(`API health ${check.status} (${check.issue}) after ${check.latencyMs}ms`);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { DOCUMENT } from '@angular/common';
+import { Inject, Injectable } from '@angular/core';
+import { EN_US } from '../i18n/en-US';
+import { ES_CO, Translations } from '../i18n/es-CO';
+import { LANGUAGES, LANGUAGE_STORAGE_KEY, Language, storedLanguage } from '../i18n/language';
+
+const TRANSLATIONS: Record<Language, Translations> = {
+  'es-CO': ES_CO,
+  'en-US': EN_US
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LanguageService {
+  readonly languages = LANGUAGES;
+  // Fixed for the life of the page, like the LOCALE_ID derived from it
+  readonly language: Language = storedLanguage();
+
+  private readonly translations: Translations = TRANSLATIONS[this.language];
+
+  constructor(@Inject(DOCUMENT) document: Document) {
+    document.documentElement.lang = this.language;
+  }
+
+  /**
+   * Text for a dotted key such as `products.messages.createdDetail`, with
+   * `{name}` placeholders replaced from `params`. Unknown keys are returned
+   * as-is so a missing translation is visible instead of blank.
+   */
+  translate(key: string, params: TranslationParams = {}): string {
+    const text = key.split('.').reduce<unknown>(
+      (node, part) => node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined,
+      this.translations
+    );
+
+    if (typeof text !== 'string') {
+      return key;
+    }
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder);
+  }
+
+  // Dates and numbers are formatted by Angular's LOCALE_ID, so the page reloads to apply it
+  setLanguage(language: Language) {
+    if (language === this.language) {
+      return;
+    }
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    window.location.reload();
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+
+const DB_NAME = 'polimarket-offline';
+const DB_VERSION = 1;
+
+// catalog: cached product pages keyed by query; mutations: queued writes with auto ids
+export type OfflineStoreName = 'catalog' | 'mutations';
+
+/**
+ * Promise wrapper over the IndexedDB database backing offline mode.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineStoreService {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async get<T>(storeName: OfflineStoreName, key: IDBValidKey): Promise<T | undefined> {
+    return this.run<T | undefined>(storeName, 'readonly', store => store.get(key));
+  }
+
+  async getAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+    return this.run<T[]>(storeName, 'readonly', store => store.getAll());
+  }
+
+  async put<T>(storeName: OfflineStoreName, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.run<IDBValidKey>(storeName, 'readwrite', store => store.put(value, key));
+  }
+
+  async delete(storeName: OfflineStoreName, key: IDBValidKey): Promise<void> {
+    await this.run(storeName, 'readwrite', store => store.delete(key));
+  }
+
+  private async run<T>(storeName: OfflineStoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('catalog');
+          db.createObjectStore('mutations', { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          // Allow a later retry, e.g. after the user re-enables storage
+          this.database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,358 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { BehaviorSubject, Observable, Subject, Subscription, defer, firstValueFrom, throwError } from 'rxjs';
+import { catchError, filter, map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { sameVersion } from '../models/product.mapper';
+import { Product } from '../models/product.model';
+import { ApiError, ApiService, CreateProductRequest, ProductListResponse, Producto, UpdateProductRequest } from './api.service';
+import { AuthService } from './auth.service';
+import { ConnectivityService } from './connectivity.service';
+import { LanguageService } from './language.service';
+import { OfflineStoreService } from './offline-store.service';
+
+export type MutationType = 'create' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  id?: number;
+  type: MutationType;
+  // Temporary "pendiente-…" id for products created offline
+  productId: string;
+  productName: string;
+  request: CreateProductRequest | UpdateProductRequest | null;
+  // fechaActualizacion the change was based on; a different server value is a conflict
+  baseVersion: string | null;
+  username: string;
+  queuedAt: string;
+  // Set when replay could not apply the change and the user has to decide
+  conflict?: Producto;
+  error?: string;
+}
+
+export interface CachedCatalog {
+  response: ProductListResponse;
+  cachedAt: string;
+}
+
+export type ConflictResolution = 'overwrite' | 'discard';
+
+const LATEST_CATALOG_KEY = 'latest';
+
+const PENDING_ID_PREFIX = 'pendiente-';
+
+class ConflictError extends Error {
+  constructor(public readonly serverProduct: Producto) {
+    super('El producto fue modificado por otro usuario');
+  }
+}
+
+export function isPendingProductId(id: string): boolean {
+  return id.startsWith(PENDING_ID_PREFIX);
+}
+
+/**
+ * Offline mode for the product catalog: caches the last product pages in
+ * IndexedDB and queues create/update/delete calls made while the API is
+ * unreachable, replaying them once it is back. Updates and deletes are checked
+ * against the product's `fechaActualizacion` before being replayed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineService implements OnDestroy {
+  private readonly queueSubject = new BehaviorSubject<QueuedMutation[]>([]);
+  // Changes of the current user, in the order they were made
+  readonly queue$: Observable<QueuedMutation[]> = this.queueSubject.asObservable();
+  readonly needsAttention$: Observable<QueuedMutation[]> = this.queue$.pipe(
+    map(queue => queue.filter(mutation => mutation.conflict !== undefined || mutation.error))
+  );
+
+  // Emits after a replay applied at least one change
+  readonly synced$ = new Subject<number>();
+
+  private replaying = false;
+  private subscriptions = new Subscription();
+
+  constructor(
+    private apiService: ApiService,
+    private authService: AuthService,
+    private connectivityService: ConnectivityService,
+    private store: OfflineStoreService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {
+    this.subscriptions.add(
+      this.authService.currentUser$.subscribe(() => this.loadQueue().then(() => this.replay()))
+    );
+    this.subscriptions.add(
+      this.connectivityService.online$.pipe(filter(online => online)).subscribe(() => this.replay())
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  // Catalog cache
+
+  async cacheCatalog(queryKey: string, response: ProductListResponse) {
+    const entry: CachedCatalog = { response, cachedAt: new Date().toISOString() };
+    try {
+      await this.store.put('catalog', entry, queryKey);
+      await this.store.put('catalog', entry, LATEST_CATALOG_KEY);
+    } catch (error) {
+      if (environment.enableDebugLogs) {
+        console.error('Error caching catalog:', error);
+      }
+    }
+  }
+
+  // Exact page if it was cached, otherwise the last page seen
+  async getCachedCatalog(queryKey: string): Promise<CachedCatalog | null> {
+    try {
+      return await this.store.get<CachedCatalog>('catalog', queryKey)
+        ?? await this.store.get<CachedCatalog>('catalog', LATEST_CATALOG_KEY)
+        ?? null;
+    } catch (error) {
+      if (environment.enableDebugLogs) {
+        console.error('Error reading cached catalog:', error);
+      }
+      return null;
+    }
+  }
+
+  // Overlays queued changes on cached products so the table reflects them
+  applyPending(productos: Producto[]): Producto[] {
+    let result = [...productos];
+    for (const mutation of this.queueSubject.value) {
+      if (mutation.type === 'delete') {
+        result = result.filter(p => p.id !== mutation.productId);
+      } else if (mutation.request) {
+        const existing = result.find(p => p.id === mutation.productId);
+        const merged = { ...this.toProducto(mutation), ...(existing ? { fechaCreacion: existing.fechaCreacion } : {}) };
+        result = existing
+          ? result.map(p => p.id === mutation.productId ? merged : p)
+          : [merged, ...result];
+      }
+    }
+    return result;
+  }
+
+  // Mutations: resolve with the saved product online, or null when queued
+
+  createProduct(request: CreateProductRequest): Observable<Producto | null> {
+    return this.submit(this.apiService.createProduct(request), {
+      type: 'create',
+      productId: `${PENDING_ID_PREFIX}${Date.now()}`,
+      productName: request.nombre,
+      request,
+      baseVersion: null
+    });
+  }
+
+  updateProduct(product: Product, request: UpdateProductRequest): Observable<Producto | null> {
+    return this.submit(this.apiService.updateProduct(product.id, request), {
+      type: 'update',
+      productId: product.id,
+      productName: request.nombre,
+      request,
+      baseVersion: product.version
+    });
+  }
+
+  deleteProduct(product: Product): Observable<boolean | null> {
+    return this.submit(this.apiService.deleteProduct(product.id), {
+      type: 'delete',
+      productId: product.id,
+      productName: product.nombre,
+      request: null,
+      baseVersion: product.version
+    });
+  }
+
+  private submit<T>(call$: Observable<T>, mutation: Omit<QueuedMutation, 'username' | 'queuedAt'>): Observable<T | null> {
+    const queue$ = defer(() => this.enqueue(mutation)).pipe(map(() => null));
+
+    // Changes to products that only exist in the queue never reach the API directly
+    if (!this.connectivityService.isOnline || isPendingProductId(mutation.productId)) {
+      return queue$;
+    }
+
+    return call$.pipe(
+      catchError(error => error instanceof ApiError && error.isNetworkError ? queue$ : throwError(() => error))
+    );
+  }
+
+  // Replay
+
+  async replay() {
+    if (this.replaying || !this.connectivityService.isOnline) {
+      return;
+    }
+
+    this.replaying = true;
+    let applied = 0;
+
+    try {
+      for (const mutation of this.queueSubject.value.filter(m => m.conflict === undefined && !m.error)) {
+        try {
+          await this.apply(mutation, false);
+          await this.remove(mutation);
+          applied++;
+        } catch (error) {
+          if (error instanceof ApiError && error.isNetworkError) {
+            break;
+          }
+          await this.markFailed(mutation, error as Error);
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    if (applied) {
+      this.messageService.add({
+        severity: 'success',
+        summary: this.languageService.translate('offline.messages.syncedSummary'),
+        detail: this.languageService.translate('offline.messages.syncedDetail', { count: applied })
+      });
+      this.synced$.next(applied);
+    }
+
+    const attention = this.queueSubject.value.filter(m => m.conflict !== undefined || m.error).length;
+    if (attention) {
+      this.messageService.add({
+        severity: 'warn',
+        summary: this.languageService.translate('offline.review.title'),
+        detail: this.languageService.translate('offline.messages.attentionDetail', { count: attention }),
+        life: 8000
+      });
+    }
+  }
+
+  async resolve(mutation: QueuedMutation, resolution: ConflictResolution) {
+    if (resolution === 'discard') {
+      await this.remove(mutation);
+      return;
+    }
+
+    try {
+      await this.apply(mutation, true);
+      await this.remove(mutation);
+      this.synced$.next(1);
+    } catch (error) {
+      await this.markFailed(mutation, error as Error);
+      throw error;
+    }
+  }
+
+  private async apply(mutation: QueuedMutation, force: boolean) {
+    if (mutation.type === 'create') {
+      await firstValueFrom(this.apiService.createProduct(mutation.request!));
+      return;
+    }
+
+    let current: Producto;
+    try {
+      current = await firstValueFrom(this.apiService.getProductById(mutation.productId));
+    } catch (error) {
+      // Already deleted elsewhere: nothing left to delete
+      if (mutation.type === 'delete' && error instanceof ApiError && error.status === 404) {
+        return;
+      }
+      throw error;
+    }
+
+    const currentVersion = current.fechaActualizacion || current.fechaCreacion;
+    if (!force && mutation.baseVersion && !sameVersion(currentVersion, mutation.baseVersion)) {
+      throw new ConflictError(current);
+    }
+
+    if (mutation.type === 'update') {
+      // Checked against the version just read, so a concurrent save still surfaces as a conflict
+      const request = { ...mutation.request!, fechaActualizacion: currentVersion };
+      await firstValueFrom(this.apiService.updateProduct(mutation.productId, request));
+    } else {
+      await firstValueFrom(this.apiService.deleteProduct(mutation.productId));
+    }
+  }
+
+  // Queue storage
+
+  private async enqueue(change: Omit<QueuedMutation, 'username' | 'queuedAt'>) {
+    const username = this.authService.currentUser?.username ?? '';
+    const previous = this.queueSubject.value.find(m => m.productId === change.productId);
+
+    if (previous) {
+      // Coalesce with the earlier change so replay sees one change per product,
+      // still checked against the version the first change was based on
+      if (previous.type === 'create') {
+        if (change.type === 'delete') {
+          await this.remove(previous);
+        } else {
+          await this.save({ ...previous, request: change.request, productName: change.productName });
+        }
+      } else {
+        await this.save({ ...previous, type: change.type, request: change.request, productName: change.productName });
+      }
+    } else {
+      await this.save({ ...change, username, queuedAt: new Date().toISOString() });
+    }
+
+    this.messageService.add({
+      severity: 'info',
+      summary: this.languageService.translate('offline.messages.queuedSummary'),
+      detail: this.languageService.translate('offline.messages.queuedDetail', { nombre: change.productName })
+    });
+  }
+
+  private async save(mutation: QueuedMutation) {
+    await this.store.put('mutations', mutation);
+    await this.loadQueue();
+  }
+
+  private async remove(mutation: QueuedMutation) {
+    if (mutation.id !== undefined) {
+      await this.store.delete('mutations', mutation.id);
+    }
+    await this.loadQueue();
+  }
+
+  private async markFailed(mutation: QueuedMutation, error: Error) {
+    await this.save(error instanceof ConflictError
+      ? { ...mutation, conflict: error.serverProduct, error: undefined }
+      : { ...mutation, conflict: undefined, error: error.message || this.languageService.translate('offline.messages.applyError') });
+  }
+
+  // Only the signed-in user's changes are visible and replayed
+  private async loadQueue() {
+    const username = this.authService.currentUser?.username;
+    try {
+      const all = username ? await this.store.getAll<QueuedMutation>('mutations') : [];
+      this.queueSubject.next(all.filter(m => m.username === username));
+    } catch (error) {
+      if (environment.enableDebugLogs) {
+        console.error('Error loading offline queue:', error);
+      }
+      this.queueSubject.next([]);
+    }
+  }
+
+  private toProducto(mutation: QueuedMutation): Producto {
+    const request = mutation.request!;
+    return {
+      id: mutation.productId,
+      nombre: request.nombre,
+      categoria: request.categoria,
+      precio: request.precio,
+      stock: request.stock,
+      stockMinimo: request.stockMinimo,
+      stockMaximo: request.stockMaximo,
+      descripcion: request.descripcion,
+      unidadMedida: request.unidadMedida,
+      estado: (request as UpdateProductRequest).estado ?? true,
+      fechaCreacion: mutation.queuedAt,
+      fechaActualizacion: mutation.queuedAt
+    };
+  }
+}
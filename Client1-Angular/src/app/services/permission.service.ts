@@ -0,0 +1,54 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { UserRole, Usuario } from './api.service';
+import { AuthService } from './auth.service';
+
+export type Permission =
+  | 'products.view'
+  | 'products.create'
+  | 'products.edit'
+  | 'products.delete'
+  | 'sellers.view'
+  | 'sellers.authorize'
+  | 'hr.view'
+  | 'diagnostics.view';
+
+// Single source of truth for what each role may do in the client
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.Admin]: [
+    'products.view', 'products.create', 'products.edit', 'products.delete',
+    'sellers.view', 'sellers.authorize',
+    'hr.view',
+    'diagnostics.view'
+  ],
+  [UserRole.HRManager]: ['products.view', 'sellers.view', 'sellers.authorize', 'hr.view'],
+  [UserRole.SalesRep]: ['products.view'],
+  [UserRole.InventoryManager]: ['products.view', 'products.create', 'products.edit'],
+  [UserRole.DeliveryManager]: ['products.view']
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  constructor(private authService: AuthService) {}
+
+  can(permission: Permission): boolean {
+    return this.userCan(this.authService.currentUser, permission);
+  }
+
+  can$(permission: Permission): Observable<boolean> {
+    return this.authService.currentUser$.pipe(
+      map(user => this.userCan(user, permission)),
+      distinctUntilChanged()
+    );
+  }
+
+  private userCan(user: Usuario | null, permission: Permission): boolean {
+    if (!user) {
+      return false;
+    }
+    return (ROLE_PERMISSIONS[user.rol] ?? []).includes(permission);
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { LanguageService } from './language.service';
+
+const PRICES_WITH_TAX_KEY = 'pricesWithTax';
+
+// Product prices are stored net (before IVA); every amount here derives from one
+export interface PriceBreakdown {
+  net: number;
+  discountPercentage: number;
+  discount: number;
+  discountedNet: number;
+  tax: number;
+  gross: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PricingService {
+  readonly taxRate = environment.taxRate;
+  readonly maxDiscountPercentage = environment.maxDiscountPercentage;
+
+  // Whether tables show prices with IVA; remembered per browser
+  private withTax = localStorage.getItem(PRICES_WITH_TAX_KEY) === 'true';
+
+  constructor(private languageService: LanguageService) {}
+
+  get pricesWithTax(): boolean {
+    return this.withTax;
+  }
+
+  setPricesWithTax(withTax: boolean) {
+    localStorage.setItem(PRICES_WITH_TAX_KEY, String(withTax));
+    this.withTax = withTax;
+  }
+
+  // Net price as shown under the current IVA preference
+  displayPrice(net: number): number {
+    return this.pricesWithTax ? this.gross(net) : net;
+  }
+
+  tax(net: number): number {
+    return roundMoney(net * this.taxRate);
+  }
+
+  gross(net: number): number {
+    return roundMoney(net + this.tax(net));
+  }
+
+  breakdown(net: number, discountPercentage: number = 0): PriceBreakdown {
+    const discount = roundMoney(net * discountPercentage / 100);
+    const discountedNet = roundMoney(net - discount);
+    const tax = this.tax(discountedNet);
+    return {
+      net,
+      discountPercentage,
+      discount,
+      discountedNet,
+      tax,
+      gross: roundMoney(discountedNet + tax)
+    };
+  }
+
+  // Error message for a discount outside 0..maxDiscountPercentage, or null when allowed
+  validateDiscount(discountPercentage: number): string | null {
+    if (discountPercentage < 0) {
+      return this.languageService.translate('products.simulator.negativeDiscount');
+    }
+    if (discountPercentage > this.maxDiscountPercentage) {
+      return this.languageService.translate('products.simulator.maxDiscountError', { percentage: this.maxDiscountPercentage });
+    }
+    return null;
+  }
+}
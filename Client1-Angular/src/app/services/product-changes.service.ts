@@ -0,0 +1,104 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, defer, from, interval } from 'rxjs';
+import { catchError, exhaustMap, mergeMap, share, startWith, switchMap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { productVersion, sameVersion } from '../models/product.mapper';
+import { ApiService, ProductChange, Producto } from './api.service';
+import { AuthService } from './auth.service';
+
+// 'live' while the server pushes changes, 'polling' after falling back to refetching
+export type ProductChangesMode = 'live' | 'polling';
+
+/**
+ * Product changes made anywhere, for views that keep the catalog on screen.
+ * Changes are pushed by the server through GET /Productos/changes
+ * (server-sent events); if that stream fails the catalog is refetched every
+ * `autoRefreshInterval` and compared with the previous copy instead. The
+ * connection is only open while someone is subscribed and a user is logged in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductChangesService {
+  private readonly modeSubject = new BehaviorSubject<ProductChangesMode | null>(null);
+  readonly mode$: Observable<ProductChangesMode | null> = this.modeSubject.asObservable();
+
+  readonly changes$: Observable<ProductChange>;
+
+  constructor(
+    private apiService: ApiService,
+    authService: AuthService
+  ) {
+    this.changes$ = authService.currentUser$.pipe(
+      switchMap(user => user ? this.connect() : EMPTY),
+      share()
+    );
+  }
+
+  private connect(): Observable<ProductChange> {
+    return new Observable<ProductChange>(subscriber => {
+      const source = new EventSource(`${environment.apiBaseUrl}/Productos/changes`);
+      let polling = false;
+
+      source.onopen = () => this.modeSubject.next('live');
+      source.onmessage = (event: MessageEvent<string>) => subscriber.next(JSON.parse(event.data));
+
+      // The browser would keep retrying the stream on its own; polling takes over
+      // until the next subscription tries it again
+      source.onerror = () => {
+        source.close();
+        if (!polling) {
+          polling = true;
+          this.modeSubject.next('polling');
+          subscriber.add(this.poll().subscribe(change => subscriber.next(change)));
+        }
+      };
+
+      return () => {
+        source.close();
+        this.modeSubject.next(null);
+      };
+    });
+  }
+
+  // The first fetch only records the baseline; later ones report what differs from it
+  private poll(): Observable<ProductChange> {
+    return defer(() => {
+      let previous: Map<string, Producto> | null = null;
+
+      return interval(environment.autoRefreshInterval).pipe(
+        startWith(0),
+        exhaustMap(() => this.apiService.getAllProducts().pipe(
+          catchError(error => {
+            if (environment.enableDebugLogs) {
+              console.error('Error polling product changes:', error);
+            }
+            return EMPTY;
+          })
+        )),
+        mergeMap(productos => {
+          const changes = previous ? diffCatalogs(previous, productos) : [];
+          previous = new Map(productos.map(producto => [producto.id, producto]));
+          return from(changes);
+        })
+      );
+    });
+  }
+}
+
+// Deletes are soft, so a deleted product is one that went from active to inactive
+function diffCatalogs(previous: Map<string, Producto>, productos: Producto[]): ProductChange[] {
+  const fecha = new Date().toISOString();
+  const changes: ProductChange[] = [];
+
+  for (const producto of productos) {
+    const before = previous.get(producto.id);
+    if (before && sameVersion(productVersion(before), productVersion(producto))) {
+      continue;
+    }
+
+    const type = !before ? 'created' : before.estado && !producto.estado ? 'deleted' : 'updated';
+    changes.push({ type, productoId: producto.id, producto, usuario: null, fecha });
+  }
+  return changes;
+}
@@ -0,0 +1,196 @@
+import { Injectable } from '@angular/core';
+import { PRODUCT_DEFAULTS, Product } from '../models/product.model';
+import { CreateProductRequest } from './api.service';
+import { LanguageService } from './language.service';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type SpreadsheetRow = Record<string, string | number | boolean>;
+
+// Excel rejects longer sheet names
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// es-CO text: dots group thousands and a comma marks decimals ("2.500.000,50", "2500,5")
+const GROUPED_NUMBER = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+// Plain number with an optional decimal point ("2500.5")
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Request plus the cells that could not be read; those rows are rejected.
+// estado is only set when the file has an Estado column with a value.
+export interface ParsedProductRow {
+  request: CreateProductRequest;
+  estado?: boolean;
+  errors: string[];
+}
+
+// Column headers shared by export and import so exported files can be re-imported
+const PRODUCT_COLUMNS = {
+  id: 'ID',
+  nombre: 'Nombre',
+  categoria: 'Categoria',
+  descripcion: 'Descripcion',
+  precio: 'Precio',
+  stock: 'Stock',
+  stockMinimo: 'StockMinimo',
+  stockMaximo: 'StockMaximo',
+  unidadMedida: 'UnidadMedida',
+  estado: 'Estado'
+} as const;
+
+type ImportField = keyof CreateProductRequest | 'estado';
+
+// Normalized header -> request field; accepts a few common spellings
+const HEADER_ALIASES: Record<string, ImportField> = {
+  nombre: 'nombre',
+  producto: 'nombre',
+  categoria: 'categoria',
+  descripcion: 'descripcion',
+  precio: 'precio',
+  stock: 'stock',
+  stockactual: 'stock',
+  stockminimo: 'stockMinimo',
+  stockmaximo: 'stockMaximo',
+  unidadmedida: 'unidadMedida',
+  unidad: 'unidadMedida',
+  estado: 'estado',
+  activo: 'estado'
+};
+
+// Normalized Estado cell -> active flag; the export writes Activo/Inactivo
+const ESTADO_VALUES: Record<string, boolean> = {
+  activo: true,
+  inactivo: false,
+  true: true,
+  false: false,
+  si: true,
+  no: false
+};
+
+/**
+ * Reads and writes the product catalog as CSV/XLSX. The SheetJS library is
+ * loaded on demand so it stays out of the initial bundle.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductSpreadsheetService {
+  constructor(private languageService: LanguageService) {}
+
+  async exportProducts(products: Product[], format: SpreadsheetFormat, fileName: string = 'productos') {
+    const rows: SpreadsheetRow[] = products.map(product => ({
+      [PRODUCT_COLUMNS.id]: product.id,
+      [PRODUCT_COLUMNS.nombre]: product.nombre,
+      [PRODUCT_COLUMNS.categoria]: product.categoria,
+      [PRODUCT_COLUMNS.descripcion]: product.descripcion,
+      [PRODUCT_COLUMNS.precio]: product.precio,
+      [PRODUCT_COLUMNS.stock]: product.stockActual,
+      [PRODUCT_COLUMNS.stockMinimo]: product.stockMinimo,
+      [PRODUCT_COLUMNS.stockMaximo]: product.stockMaximo,
+      [PRODUCT_COLUMNS.unidadMedida]: product.unidadMedida,
+      [PRODUCT_COLUMNS.estado]: product.activo ? 'Activo' : 'Inactivo'
+    }));
+
+    await this.exportRows(rows, format, fileName, 'Productos');
+  }
+
+  async exportRows(rows: SpreadsheetRow[], format: SpreadsheetFormat, fileName: string, sheetName: string = 'Datos') {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheetName.slice(0, MAX_SHEET_NAME_LENGTH));
+    XLSX.writeFile(workbook, `${fileName}.${format}`, { bookType: format });
+  }
+
+  // First sheet of the file as objects keyed by the original header text
+  async readRows(file: File): Promise<SpreadsheetRow[]> {
+    const XLSX = await import('xlsx');
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+
+    // CSV is decoded as text so UTF-8 accents survive without a BOM, and kept
+    // raw so "2.500" reaches number() as text instead of being read as 2.5
+    const workbook = isCsv
+      ? XLSX.read(await file.text(), { type: 'string', raw: true })
+      : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    return sheet ? XLSX.utils.sheet_to_json<SpreadsheetRow>(sheet, { defval: '' }) : [];
+  }
+
+  parseRow(row: SpreadsheetRow): ParsedProductRow {
+    const errors: string[] = [];
+    const values: Partial<Record<ImportField, string | number | boolean>> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const field = HEADER_ALIASES[this.normalizeHeader(header)];
+      if (field) {
+        values[field] = value;
+      }
+    }
+
+    const number = (field: 'precio' | 'stock' | 'stockMinimo' | 'stockMaximo', fallback: number = NaN) => {
+      const parsed = this.number(values[field], fallback);
+      if (parsed === null) {
+        errors.push(`${field}: ${this.languageService.translate('products.importDialog.errors.number', { value: this.text(values[field]) })}`);
+        return NaN;
+      }
+      return parsed;
+    };
+
+    const request: CreateProductRequest = {
+      nombre: this.text(values.nombre),
+      categoria: this.text(values.categoria),
+      descripcion: this.text(values.descripcion) || PRODUCT_DEFAULTS.descripcion,
+      precio: number('precio'),
+      stock: number('stock', PRODUCT_DEFAULTS.stockActual),
+      stockMinimo: number('stockMinimo', PRODUCT_DEFAULTS.stockMinimo),
+      stockMaximo: number('stockMaximo', PRODUCT_DEFAULTS.stockMaximo),
+      unidadMedida: this.text(values.unidadMedida) || PRODUCT_DEFAULTS.unidadMedida
+    };
+    return { request, estado: this.estado(values.estado, errors), errors };
+  }
+
+  private estado(value: string | number | boolean | undefined, errors: string[]): boolean | undefined {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    const text = this.normalizeHeader(this.text(value));
+    if (!text) {
+      return undefined;
+    }
+    if (!(text in ESTADO_VALUES)) {
+      errors.push(`estado: ${this.languageService.translate('products.importDialog.errors.estado', { value: this.text(value) })}`);
+      return undefined;
+    }
+    return ESTADO_VALUES[text];
+  }
+
+  private normalizeHeader(header: string): string {
+    return header
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  private text(value: string | number | boolean | undefined): string {
+    return value === undefined ? '' : String(value).trim();
+  }
+
+  // Accepts plain numbers as well as es-CO formatted text such as "$ 2.500.000,50".
+  // Dots followed by groups of three digits are thousands ("2.500" is 2500); text
+  // that fits neither format (e.g. "1,234.56") returns null rather than a guess.
+  private number(value: string | number | boolean | undefined, fallback: number = NaN): number | null {
+    if (typeof value === 'number') {
+      return value;
+    }
+
+    const text = this.text(value).replace(/[^0-9.,-]/g, '');
+    if (!text) {
+      return fallback;
+    }
+
+    if (GROUPED_NUMBER.test(text)) {
+      return Number(text.replace(/\./g, '').replace(',', '.'));
+    }
+    return PLAIN_NUMBER.test(text) ? Number(text) : null;
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { ReportTable } from '../models/inventory-report.model';
+import { LanguageService } from './language.service';
+import { ProductSpreadsheetService, SpreadsheetRow } from './product-spreadsheet.service';
+
+// A4 portrait in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const LINE_HEIGHT = 7;
+
+/**
+ * Exports report snapshots. Files reflect the data at the time of export and
+ * carry the generation timestamp; jsPDF is loaded on demand.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportExportService {
+  constructor(
+    private spreadsheetService: ProductSpreadsheetService,
+    private languageService: LanguageService
+  ) {}
+
+  async exportCsv(report: ReportTable, fileName: string) {
+    const rows: SpreadsheetRow[] = report.rows.map(row =>
+      Object.fromEntries(report.columns.map((column, i) => [column, row[i]])));
+
+    // CSV has no sheet names, so the default one is enough
+    await this.spreadsheetService.exportRows(rows, 'csv', fileName);
+  }
+
+  async exportPdf(report: ReportTable, fileName: string, chartImage?: string) {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const contentWidth = PAGE_WIDTH - MARGIN * 2;
+    let y = MARGIN;
+
+    doc.setFontSize(16);
+    doc.text(report.title, MARGIN, y);
+    y += LINE_HEIGHT;
+
+    doc.setFontSize(9);
+    doc.setTextColor(110);
+    const generatedAt = new Date().toLocaleString(this.languageService.language);
+    doc.text(`${environment.appName} · ${this.languageService.translate('reports.generatedAt', { date: generatedAt })}`, MARGIN, y);
+    doc.setTextColor(0);
+    y += LINE_HEIGHT;
+
+    if (chartImage) {
+      const props = doc.getImageProperties(chartImage);
+      const height = Math.min(contentWidth * props.height / props.width, 110);
+      doc.addImage(chartImage, 'PNG', MARGIN, y, height * props.width / props.height, height);
+      y += height + LINE_HEIGHT;
+    }
+
+    const columnWidth = contentWidth / report.columns.length;
+    const drawRow = (cells: (string | number)[], bold: boolean) => {
+      if (y > PAGE_HEIGHT - MARGIN) {
+        doc.addPage();
+        y = MARGIN;
+      }
+      doc.setFont('helvetica', bold ? 'bold' : 'normal');
+      cells.forEach((cell, i) => {
+        const text = doc.splitTextToSize(String(cell), columnWidth - 2)[0] ?? '';
+        doc.text(text, MARGIN + i * columnWidth, y);
+      });
+      y += LINE_HEIGHT;
+    };
+
+    doc.setFontSize(10);
+    drawRow(report.columns, true);
+    report.rows.forEach(row => drawRow(row, false));
+
+    doc.save(`${fileName}.pdf`);
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, fromEvent, interval, merge } from 'rxjs';
+import { throttleTime } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+
+// Shared through localStorage so activity in any tab keeps every tab alive
+const LAST_ACTIVITY_KEY = 'lastActivity';
+const WARNING_PERIOD_MS = 60000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionTimeoutService implements OnDestroy {
+  // Seconds left before the idle logout, or null while no warning is due
+  private readonly secondsRemainingSubject = new BehaviorSubject<number | null>(null);
+  readonly secondsRemaining$: Observable<number | null> = this.secondsRemainingSubject.asObservable();
+
+  private watchSubscription: Subscription | null = null;
+  private userSubscription: Subscription;
+
+  constructor(private authService: AuthService) {
+    this.userSubscription = this.authService.currentUser$.subscribe(user => {
+      if (user) {
+        this.start();
+      } else {
+        this.stop();
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.stop();
+    this.userSubscription.unsubscribe();
+  }
+
+  // Explicit "stay signed in" from the warning dialog
+  keepAlive() {
+    this.recordActivity();
+    this.secondsRemainingSubject.next(null);
+  }
+
+  private start() {
+    if (this.watchSubscription) {
+      return;
+    }
+
+    this.recordActivity();
+
+    const activity$ = merge(...ACTIVITY_EVENTS.map(name => fromEvent(document, name)))
+      .pipe(throttleTime(5000));
+
+    this.watchSubscription = new Subscription();
+    this.watchSubscription.add(activity$.subscribe(() => {
+      // Once the warning is up, only the dialog's explicit action counts
+      if (this.secondsRemainingSubject.value === null) {
+        this.recordActivity();
+      }
+    }));
+    this.watchSubscription.add(interval(1000).subscribe(() => this.checkIdle()));
+  }
+
+  private stop() {
+    this.watchSubscription?.unsubscribe();
+    this.watchSubscription = null;
+    this.secondsRemainingSubject.next(null);
+  }
+
+  private checkIdle() {
+    const remaining = environment.sessionTimeout - (Date.now() - this.lastActivity());
+
+    if (remaining <= 0) {
+      this.stop();
+      this.authService.logout('idle');
+    } else if (remaining <= WARNING_PERIOD_MS) {
+      this.secondsRemainingSubject.next(Math.ceil(remaining / 1000));
+    } else if (this.secondsRemainingSubject.value !== null) {
+      // Another tab reported activity
+      this.secondsRemainingSubject.next(null);
+    }
+  }
+
+  private recordActivity() {
+    localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString());
+  }
+
+  private lastActivity(): number {
+    const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return stored > 0 ? stored : Date.now();
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { toProduct } from '../models/product.mapper';
+import { STOCK_ALERT_PRIORITY, StockAlert, StockAlertLevel, classifyStock } from '../models/stock-alert.model';
+import { ApiService } from './api.service';
+import { AuthService } from './auth.service';
+import { LanguageService } from './language.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class StockAlertService implements OnDestroy {
+  private readonly alertsSubject = new BehaviorSubject<StockAlert[]>([]);
+  readonly alerts$: Observable<StockAlert[]> = this.alertsSubject.asObservable();
+  readonly count$: Observable<number> = this.alerts$.pipe(map(alerts => alerts.length));
+
+  private readonly loadingSubject = new BehaviorSubject<boolean>(false);
+  readonly loading$: Observable<boolean> = this.loadingSubject.asObservable();
+
+  // Last known level per product id; null until the first load of the session
+  private previousLevels: Map<string, StockAlertLevel> | null = null;
+  private refreshSubscription: Subscription | null = null;
+  private userSubscription: Subscription;
+
+  constructor(
+    private apiService: ApiService,
+    private authService: AuthService,
+    private languageService: LanguageService,
+    private messageService: MessageService
+  ) {
+    this.userSubscription = this.authService.currentUser$.subscribe(user => {
+      if (user) {
+        this.refresh();
+      } else {
+        this.reset();
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.userSubscription.unsubscribe();
+    this.refreshSubscription?.unsubscribe();
+  }
+
+  refresh() {
+    this.refreshSubscription?.unsubscribe();
+    this.loadingSubject.next(true);
+
+    this.refreshSubscription = this.apiService.getAllProducts(undefined, true).subscribe({
+      next: (productos) => {
+        const alerts: StockAlert[] = [];
+        for (const product of productos.map(toProduct)) {
+          const level = classifyStock(product);
+          if (level) {
+            alerts.push({ product, level });
+          }
+        }
+
+        alerts.sort((a, b) =>
+          STOCK_ALERT_PRIORITY.indexOf(a.level) - STOCK_ALERT_PRIORITY.indexOf(b.level) ||
+          a.product.stockActual - b.product.stockActual);
+
+        this.notifyNewShortages(alerts);
+        this.alertsSubject.next(alerts);
+        this.loadingSubject.next(false);
+      },
+      error: (error) => {
+        if (environment.enableDebugLogs) {
+          console.error('Error loading stock alerts:', error);
+        }
+        this.loadingSubject.next(false);
+      }
+    });
+  }
+
+  // Toasts only for products that crossed below their minimum since the last refresh
+  private notifyNewShortages(alerts: StockAlert[]) {
+    const levels = new Map(alerts.map(alert => [alert.product.id, alert.level]));
+    const previous = this.previousLevels;
+    this.previousLevels = levels;
+
+    if (!previous || !environment.enableNotifications) {
+      return;
+    }
+
+    for (const alert of alerts) {
+      const before = previous.get(alert.product.id);
+      const isShortage = alert.level === 'out-of-stock' || alert.level === 'below-minimum';
+      const wasShortage = before === 'out-of-stock' || before === 'below-minimum';
+
+      if (isShortage && (!wasShortage || (before === 'below-minimum' && alert.level === 'out-of-stock'))) {
+        this.messageService.add({
+          severity: alert.level === 'out-of-stock' ? 'error' : 'warn',
+          summary: this.languageService.translate(alert.level === 'out-of-stock' ? 'stockAlerts.toast.outOfStock' : 'stockAlerts.toast.belowMinimum'),
+          detail: this.languageService.translate('stockAlerts.toast.detail', {
+            nombre: alert.product.nombre,
+            stock: alert.product.stockActual,
+            minimo: alert.product.stockMinimo
+          }),
+          life: 8000
+        });
+      }
+    }
+  }
+
+  private reset() {
+    this.refreshSubscription?.unsubscribe();
+    this.previousLevels = null;
+    this.alertsSubject.next([]);
+    this.loadingSubject.next(false);
+  }
+}
@@ -0,0 +1,105 @@
+import { AbstractControl, FormGroup, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { CreateProductRequest } from '../services/api.service';
+import { LanguageService } from '../services/language.service';
+
+// Mirrors ProductosComponent.ValidateProduct on the backend
+export const PRODUCT_LIMITS = {
+  nombreMaxLength: 100,
+  categoriaMaxLength: 50,
+  descripcionMaxLength: 500,
+  unidadMedidaMaxLength: 20,
+  minPrecio: 0.01
+} as const;
+
+/**
+ * Cross-field stock rules: minimum may not exceed maximum, and current stock
+ * may not exceed maximum. Errors are set on the form group.
+ */
+export const stockLimitsValidator: ValidatorFn = (group: AbstractControl): ValidationErrors | null => {
+  const stock = group.get('stockActual')?.value;
+  const min = group.get('stockMinimo')?.value;
+  const max = group.get('stockMaximo')?.value;
+  const errors: ValidationErrors = {};
+
+  if (min != null && max != null && min > max) {
+    errors['stockRange'] = true;
+  }
+  if (stock != null && max != null && stock > max) {
+    errors['stockAboveMax'] = true;
+  }
+
+  return Object.keys(errors).length ? errors : null;
+};
+
+/**
+ * Attaches backend validation messages ("campo: mensaje") to the matching form
+ * controls as a `server` error. Returns the messages no control claimed.
+ */
+export function applyServerErrors(form: FormGroup, errors: string[], fieldMap: Record<string, string> = {}): string[] {
+  const unmatched: string[] = [];
+
+  for (const error of errors) {
+    const separator = error.indexOf(':');
+    const field = separator > 0 ? error.substring(0, separator).trim() : '';
+    const control = field ? form.get(fieldMap[field] ?? field) : null;
+
+    if (control) {
+      control.setErrors({ ...control.errors, server: error.substring(separator + 1).trim() });
+      control.markAsTouched();
+    } else {
+      unmatched.push(error);
+    }
+  }
+
+  return unmatched;
+}
+
+/**
+ * Same rules as the form and the backend, for rows that never go through the
+ * form (e.g. spreadsheet imports). Messages use the backend "campo: mensaje" format.
+ */
+export function validateProductRequest(request: CreateProductRequest, languageService: LanguageService): string[] {
+  const errors: string[] = [];
+  const add = (field: keyof CreateProductRequest, key: string, max?: number) =>
+    errors.push(`${field}: ${languageService.translate(`products.validation.${key}`, max === undefined ? {} : { max })}`);
+
+  if (!request.nombre) {
+    add('nombre', 'nombreRequired');
+  } else if (request.nombre.length > PRODUCT_LIMITS.nombreMaxLength) {
+    add('nombre', 'nombreMaxLength', PRODUCT_LIMITS.nombreMaxLength);
+  }
+
+  if (!request.categoria) {
+    add('categoria', 'categoriaRequired');
+  } else if (request.categoria.length > PRODUCT_LIMITS.categoriaMaxLength) {
+    add('categoria', 'categoriaMaxLength', PRODUCT_LIMITS.categoriaMaxLength);
+  }
+
+  if (request.descripcion.length > PRODUCT_LIMITS.descripcionMaxLength) {
+    add('descripcion', 'descripcionMaxLength', PRODUCT_LIMITS.descripcionMaxLength);
+  }
+
+  if (request.unidadMedida.length > PRODUCT_LIMITS.unidadMedidaMaxLength) {
+    add('unidadMedida', 'unidadMedidaMaxLength', PRODUCT_LIMITS.unidadMedidaMaxLength);
+  }
+
+  if (!Number.isFinite(request.precio) || request.precio < PRODUCT_LIMITS.minPrecio) {
+    add('precio', 'precioMin');
+  }
+
+  for (const field of ['stock', 'stockMinimo'] as const) {
+    if (!Number.isInteger(request[field]) || request[field] < 0) {
+      add(field, `${field}Integer`);
+    }
+  }
+
+  if (!Number.isInteger(request.stockMaximo) || request.stockMaximo <= 0) {
+    add('stockMaximo', 'stockMaximoMin');
+  } else if (request.stockMinimo > request.stockMaximo) {
+    add('stockMaximo', 'stockRange');
+  } else if (request.stock > request.stockMaximo) {
+    add('stock', 'stockAboveMax');
+  }
+
+  return errors;
+}